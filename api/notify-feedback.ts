@@ -1,9 +1,21 @@
+import { buildFeedbackMessage, feedbackNotifySchema } from "../src/lib/feedback.js";
+
+interface ApiRequest {
+  method?: string;
+  body?: unknown;
+}
+
+interface ApiResponse {
+  status(code: number): ApiResponse;
+  send(body: string): void;
+}
+
 const buildPayload = (text: string) => ({
   msg_type: "text",
   content: { text },
 });
 
-export default async function handler(req: any, res: any) {
+export default async function handler(req: ApiRequest, res: ApiResponse) {
   if (req.method !== "POST") {
     res.status(405).send("Method Not Allowed");
     return;
@@ -15,8 +27,8 @@ export default async function handler(req: any, res: any) {
     return;
   }
 
-  const text = typeof req.body?.text === "string" ? req.body.text : null;
-  if (!text) {
+  const parsed = feedbackNotifySchema.safeParse(req.body);
+  if (!parsed.success) {
     res.status(400).send("Invalid payload");
     return;
   }
@@ -24,7 +36,7 @@ export default async function handler(req: any, res: any) {
   const response = await fetch(webhook, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(buildPayload(text)),
+    body: JSON.stringify(buildPayload(buildFeedbackMessage(parsed.data))),
   });
 
   if (!response.ok) {
@@ -0,0 +1,96 @@
+import { useState, type FormEvent, type ReactNode } from "react";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import SiteHeader from "@/components/layout/SiteHeader";
+import { useAdminSession } from "@/hooks/use-admin-session";
+
+interface AdminGuardProps {
+  children: ReactNode;
+}
+
+// 管理后台入口：未登录时显示登录表单，非管理员提示无权限
+export default function AdminGuard({ children }: AdminGuardProps) {
+  const { session, isAdmin, loading } = useAdminSession();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLogin = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    const { error: signInError } = await supabase.auth.signInWithPassword({ email, password });
+    if (signInError) setError("登录失败，请检查邮箱和密码");
+    setSubmitting(false);
+  };
+
+  if (!loading && isAdmin) return <>{children}</>;
+
+  return (
+    <div className="min-h-screen bg-[#f7f7f8]">
+      <SiteHeader>
+        {session && (
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => supabase.auth.signOut()}
+            className="font-semibold rounded-lg h-9 px-4"
+          >
+            退出登录
+          </Button>
+        )}
+      </SiteHeader>
+
+      <main className="container mx-auto px-4 py-12 max-w-[420px]">
+        <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl bg-white">
+          <div className="p-8">
+            {loading ? (
+              <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />
+            ) : session ? (
+              <p className="text-center text-sm text-muted-foreground">
+                当前账号（{session.user.email}）没有管理员权限
+              </p>
+            ) : (
+              <form onSubmit={handleLogin} className="space-y-4">
+                <h1 className="text-xl font-extrabold text-foreground">管理员登录</h1>
+                <div className="space-y-2">
+                  <Label htmlFor="admin-email">邮箱</Label>
+                  <Input
+                    id="admin-email"
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="admin-password">密码</Label>
+                  <Input
+                    id="admin-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                <Button type="submit" disabled={submitting} className="w-full font-semibold">
+                  {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  登录
+                </Button>
+              </form>
+            )}
+          </div>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+
+interface SiteHeaderProps {
+  /** 点击 Logo 的行为，默认回到首页 */
+  onLogoClick?: () => void;
+  /** 右侧操作区 */
+  children?: ReactNode;
+}
+
+// 深色顶部条，各页面共用
+export default function SiteHeader({ onLogoClick, children }: SiteHeaderProps) {
+  const navigate = useNavigate();
+
+  return (
+    <header className="bg-[#0b0f14] h-16 sticky top-0 z-50 shadow-md">
+      <div className="container mx-auto px-4 h-full max-w-[860px] flex items-center justify-between">
+        {/* Logo */}
+        <button
+          onClick={onLogoClick ?? (() => navigate("/"))}
+          className="flex items-center gap-3 transition-transform hover:scale-105 active:scale-95"
+          aria-label="返回首页"
+        >
+          <div className="w-10 h-10 flex items-center justify-center">
+            <img
+              src="https://grazia-prod.oss-ap-southeast-1.aliyuncs.com/resources/uid_100003531/logo_transparent_5130.png"
+              alt="Iron Legs"
+              className="w-full h-full object-contain"
+              crossOrigin="anonymous"
+            />
+          </div>
+        </button>
+
+        {/* 右侧按钮 */}
+        {children}
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+/** 当前登录会话与是否为管理员（app_metadata.role === "admin"，与 RLS 中 is_admin() 一致） */
+export function useAdminSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const isAdmin = session?.user.app_metadata?.role === "admin";
+  return { session, isAdmin, loading };
+}
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+/** 拉取一款轮胎的全部测试结果及其来源（新到旧） */
+export function useTestResults(tireId: string | undefined) {
+  return useQuery({
+    queryKey: ["tire_test_results", tireId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("tire_test_results")
+        .select("*, source:test_sources(*)")
+        .eq("tire_id", tireId!)
+        .order("tested_on", { ascending: false, nullsFirst: false })
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!tireId,
+  });
+}
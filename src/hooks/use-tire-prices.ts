@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+/** 拉取一款轮胎的全部价格观测 */
+export function useTirePrices(tireId: string | undefined) {
+  return useQuery({
+    queryKey: ["tire_prices", tireId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("tire_prices")
+        .select("*")
+        .eq("tire_id", tireId!)
+        .order("observed_on", { ascending: true, nullsFirst: true });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!tireId,
+  });
+}
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+/** 拉取轮胎数据（不含已删除）；传入 ids 时只取这些轮胎 */
+export function useTires(ids?: string[]) {
+  return useQuery({
+    queryKey: ["tires", ids ?? "all"],
+    queryFn: async () => {
+      let query = supabase.from("tires").select("*").is("deleted_at", null);
+      if (ids) query = query.in("id", ids);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !ids || ids.length > 0,
+  });
+}
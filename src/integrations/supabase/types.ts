@@ -14,6 +14,38 @@ export type Database = {
   }
   public: {
     Tables: {
+      explanation_cache: {
+        Row: {
+          cache_key: string
+          created_at: string
+          explanation: string
+          model: string
+          tire_id: string
+        }
+        Insert: {
+          cache_key: string
+          created_at?: string
+          explanation: string
+          model: string
+          tire_id: string
+        }
+        Update: {
+          cache_key?: string
+          created_at?: string
+          explanation?: string
+          model?: string
+          tire_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "explanation_cache_tire_id_fkey"
+            columns: ["tire_id"]
+            isOneToOne: false
+            referencedRelation: "tires"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       feedback: {
         Row: {
           created_at: string | null
@@ -47,20 +79,236 @@ export type Database = {
         }
         Relationships: []
       }
+      test_sources: {
+        Row: {
+          confidence: number
+          created_at: string | null
+          drum_type: string | null
+          id: string
+          methodology: string | null
+          name: string
+          pressure_bar: number | null
+          temperature_c: number | null
+          url: string | null
+        }
+        Insert: {
+          confidence?: number
+          created_at?: string | null
+          drum_type?: string | null
+          id?: string
+          methodology?: string | null
+          name: string
+          pressure_bar?: number | null
+          temperature_c?: number | null
+          url?: string | null
+        }
+        Update: {
+          confidence?: number
+          created_at?: string | null
+          drum_type?: string | null
+          id?: string
+          methodology?: string | null
+          name?: string
+          pressure_bar?: number | null
+          temperature_c?: number | null
+          url?: string | null
+        }
+        Relationships: []
+      }
+      tire_families: {
+        Row: {
+          brand: string
+          created_at: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          brand: string
+          created_at?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          brand?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      tire_feedback: {
+        Row: {
+          answers: Json
+          comment: string | null
+          created_at: string | null
+          id: string
+          rank: number
+          reasons: string[]
+          tire_id: string
+          vote: string
+        }
+        Insert: {
+          answers?: Json
+          comment?: string | null
+          created_at?: string | null
+          id?: string
+          rank: number
+          reasons?: string[]
+          tire_id: string
+          vote: string
+        }
+        Update: {
+          answers?: Json
+          comment?: string | null
+          created_at?: string | null
+          id?: string
+          rank?: number
+          reasons?: string[]
+          tire_id?: string
+          vote?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tire_feedback_tire_id_fkey"
+            columns: ["tire_id"]
+            isOneToOne: false
+            referencedRelation: "tires"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tire_prices: {
+        Row: {
+          channel: string | null
+          created_at: string | null
+          currency: string
+          id: string
+          observed_on: string | null
+          price: number
+          tire_id: string
+          url: string | null
+        }
+        Insert: {
+          channel?: string | null
+          created_at?: string | null
+          currency?: string
+          id?: string
+          observed_on?: string | null
+          price: number
+          tire_id: string
+          url?: string | null
+        }
+        Update: {
+          channel?: string | null
+          created_at?: string | null
+          currency?: string
+          id?: string
+          observed_on?: string | null
+          price?: number
+          tire_id?: string
+          url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tire_prices_tire_id_fkey"
+            columns: ["tire_id"]
+            isOneToOne: false
+            referencedRelation: "tires"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tire_test_results: {
+        Row: {
+          created_at: string | null
+          id: string
+          inner_tube: string | null
+          rr_extra_high_w: number | null
+          rr_high_w: number | null
+          rr_med_w: number | null
+          rr_ultra_high_w: number | null
+          source_id: string | null
+          source_site: string | null
+          tested_on: string | null
+          tire_id: string
+          wet_avg: number | null
+          wet_center: number | null
+          wet_edge: number | null
+          wg_min_center_edge: number | null
+          width_measured_mm: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          inner_tube?: string | null
+          rr_extra_high_w?: number | null
+          rr_high_w?: number | null
+          rr_med_w?: number | null
+          rr_ultra_high_w?: number | null
+          source_id?: string | null
+          source_site?: string | null
+          tested_on?: string | null
+          tire_id: string
+          wet_avg?: number | null
+          wet_center?: number | null
+          wet_edge?: number | null
+          wg_min_center_edge?: number | null
+          width_measured_mm?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          inner_tube?: string | null
+          rr_extra_high_w?: number | null
+          rr_high_w?: number | null
+          rr_med_w?: number | null
+          rr_ultra_high_w?: number | null
+          source_id?: string | null
+          source_site?: string | null
+          tested_on?: string | null
+          tire_id?: string
+          wet_avg?: number | null
+          wet_center?: number | null
+          wet_edge?: number | null
+          wg_min_center_edge?: number | null
+          width_measured_mm?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tire_test_results_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "test_sources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tire_test_results_tire_id_fkey"
+            columns: ["tire_id"]
+            isOneToOne: false
+            referencedRelation: "tires"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tires: {
         Row: {
           brand: string | null
+          deleted_at: string | null
+          family_id: string | null
           id: string
           inner_tube: string | null
           model: string | null
           price: number | null
           price_reference: string | null
+          price_updated_on: string | null
           rating: number | null
+          retired: boolean
           rr_extra_high_w: number | null
           rr_high_w: number | null
           rr_med_w: number | null
           rr_ultra_high_w: number | null
           source_site: string | null
+          tested_on: string | null
           tire_type: string | null
           wet_avg: number | null
           wet_center: number | null
@@ -72,17 +320,22 @@ export type Database = {
         }
         Insert: {
           brand?: string | null
+          deleted_at?: string | null
+          family_id?: string | null
           id?: string
           inner_tube?: string | null
           model?: string | null
           price?: number | null
           price_reference?: string | null
+          price_updated_on?: string | null
           rating?: number | null
+          retired?: boolean
           rr_extra_high_w?: number | null
           rr_high_w?: number | null
           rr_med_w?: number | null
           rr_ultra_high_w?: number | null
           source_site?: string | null
+          tested_on?: string | null
           tire_type?: string | null
           wet_avg?: number | null
           wet_center?: number | null
@@ -94,17 +347,22 @@ export type Database = {
         }
         Update: {
           brand?: string | null
+          deleted_at?: string | null
+          family_id?: string | null
           id?: string
           inner_tube?: string | null
           model?: string | null
           price?: number | null
           price_reference?: string | null
+          price_updated_on?: string | null
           rating?: number | null
+          retired?: boolean
           rr_extra_high_w?: number | null
           rr_high_w?: number | null
           rr_med_w?: number | null
           rr_ultra_high_w?: number | null
           source_site?: string | null
+          tested_on?: string | null
           tire_type?: string | null
           wet_avg?: number | null
           wet_center?: number | null
@@ -114,14 +372,23 @@ export type Database = {
           width_spec_mm?: number | null
           year?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tires_family_id_fkey"
+            columns: ["family_id"]
+            isOneToOne: false
+            referencedRelation: "tire_families"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      import_tires: { Args: { rows: Json }; Returns: number }
+      is_admin: { Args: never; Returns: boolean }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,24 @@
+/**
+ * 复制文本到剪贴板：优先使用 Clipboard API，失败时退回 execCommand。
+ * 返回实际生效的方式，两种都失败时抛出错误。
+ */
+export async function copyText(text: string): Promise<"clipboard" | "fallback"> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return "clipboard";
+  } catch {
+    const textArea = document.createElement("textarea");
+    textArea.value = text;
+    textArea.style.position = "fixed";
+    textArea.style.left = "-999999px";
+    textArea.style.top = "-999999px";
+    document.body.appendChild(textArea);
+    textArea.focus();
+    textArea.select();
+    const successful = document.execCommand("copy");
+    document.body.removeChild(textArea);
+
+    if (!successful) throw new Error("Copy failed");
+    return "fallback";
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("splits rows and cells", () => {
+    expect(parseCsv("a,b\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("keeps commas, newlines and escaped quotes inside quoted fields", () => {
+    expect(parseCsv('name,note\n"GP5000, S TR","第一行\n第二行"\n"say ""hi""",x')).toEqual([
+      ["name", "note"],
+      ["GP5000, S TR", "第一行\n第二行"],
+      ['say "hi"', "x"],
+    ]);
+  });
+
+  it("handles CRLF, a BOM and blank lines", () => {
+    expect(parseCsv("\uFEFFa,b\r\n1,2\r\n\r\n,\r\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("keeps empty cells", () => {
+    expect(parseCsv("a,b,c\n1,,3")).toEqual([
+      ["a", "b", "c"],
+      ["1", "", "3"],
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("round-trips through parseCsv", () => {
+    const rows = [{ name: 'Pro "One", 28', note: "多行\n备注", count: 3 }];
+    const csv = toCsv(rows, ["name", "note", "count"]);
+    expect(parseCsv(csv)).toEqual([
+      ["name", "note", "count"],
+      ['Pro "One", 28', "多行\n备注", "3"],
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * 简单的 CSV 工具（RFC 4180 引号规则），用于后台导出与导入。
+ */
+
+const escapeCell = (value: unknown): string => {
+  if (value == null) return "";
+  const text = Array.isArray(value) ? value.join(";") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv<T extends object>(rows: T[], columns: (keyof T & string)[]): string {
+  const lines = [
+    columns.join(","),
+    ...rows.map((row) => columns.map((col) => escapeCell(row[col])).join(",")),
+  ];
+  return lines.join("\r\n");
+}
+
+/** 触发浏览器下载；加 BOM 让 Excel 正确识别 UTF-8 中文 */
+export function downloadCsv(filename: string, csv: string) {
+  const blob = new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** 解析 CSV 文本为二维数组；忽略 BOM 与空行 */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
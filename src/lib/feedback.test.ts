@@ -0,0 +1,47 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { HELPFULNESS_LABELS, HELPFULNESS_VALUES, feedbackInsertSchema } from "./feedback";
+
+const MIGRATIONS_DIR = path.resolve(__dirname, "../../supabase/migrations");
+
+/** 按文件名顺序找到最后一次声明的 feedback.helpfulness CHECK 取值 */
+function helpfulnessCheckValues(): string[] {
+  const files = readdirSync(MIGRATIONS_DIR).sort();
+  let values: string[] = [];
+  for (const file of files) {
+    const sql = readFileSync(path.join(MIGRATIONS_DIR, file), "utf8");
+    for (const match of sql.matchAll(/helpfulness\s+IN\s*\(([^)]*)\)/gi)) {
+      values = Array.from(match[1].matchAll(/'([^']+)'/g), (m) => m[1]);
+    }
+  }
+  return values;
+}
+
+describe("feedback helpfulness contract", () => {
+  const allowed = helpfulnessCheckValues();
+
+  it("finds the CHECK constraint in the migrations", () => {
+    expect(allowed.length).toBeGreaterThan(0);
+  });
+
+  it.each(Object.keys(HELPFULNESS_LABELS))("accepts the UI option %s end to end", (value) => {
+    const row = feedbackInsertSchema.parse({
+      helpfulness: value,
+      q1_importance: "normal",
+      q2_width_pref: "28",
+      top1: "A",
+      top2: null,
+      top3: null,
+    });
+    expect(allowed).toContain(row.helpfulness);
+  });
+
+  it("matches the database CHECK list exactly", () => {
+    expect([...HELPFULNESS_VALUES].sort()).toEqual([...allowed].sort());
+  });
+
+  it("rejects values outside the contract", () => {
+    expect(feedbackInsertSchema.safeParse({ helpfulness: "neutral" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * 反馈数据的唯一约定：页面、/api/notify-feedback 与 feedback / tire_feedback 表的 CHECK 约束共用。
+ * 修改 HELPFULNESS_VALUES、TIRE_VOTE_VALUES 或 TIRE_FEEDBACK_REASONS 时需同步新增 migration。
+ * 本文件同时被 Vercel API 引用，不要使用 "@/" 路径别名；API 以 ESM 运行，引用时需带 .js 扩展名。
+ */
+import { z } from "zod";
+
+export const HELPFULNESS_VALUES = ["helpful", "ok", "not_helpful"] as const;
+
+export const helpfulnessSchema = z.enum(HELPFULNESS_VALUES);
+
+export type Helpfulness = z.infer<typeof helpfulnessSchema>;
+
+/** 页面上的选项，Record 保证每个取值都有且仅有一个按钮 */
+export const HELPFULNESS_LABELS: Record<Helpfulness, string> = {
+  helpful: "有帮助",
+  ok: "一般",
+  not_helpful: "没帮助",
+};
+
+/** feedback 表的插入数据 */
+export const feedbackInsertSchema = z.object({
+  helpfulness: helpfulnessSchema,
+  q1_importance: z.string().nullable(),
+  q2_width_pref: z.string().nullable(),
+  top1: z.string().nullable(),
+  top2: z.string().nullable(),
+  top3: z.string().nullable(),
+});
+
+export type FeedbackInsert = z.infer<typeof feedbackInsertSchema>;
+
+/** POST /api/notify-feedback 的请求体 */
+export const feedbackNotifySchema = z.object({
+  feedback: feedbackInsertSchema,
+  source: z.string(),
+});
+
+export type FeedbackNotifyPayload = z.infer<typeof feedbackNotifySchema>;
+
+export function buildFeedbackMessage({ feedback, source }: FeedbackNotifyPayload): string {
+  return [
+    "新反馈",
+    `反馈：${HELPFULNESS_LABELS[feedback.helpfulness]}`,
+    `Q1 湿地偏好：${feedback.q1_importance}`,
+    `Q2 胎宽偏好：${feedback.q2_width_pref}`,
+    feedback.top1 ? `Top1：${feedback.top1}` : null,
+    feedback.top2 ? `Top2：${feedback.top2}` : null,
+    feedback.top3 ? `Top3：${feedback.top3}` : null,
+    `来源：${source}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** 单条推荐卡片上的赞 / 踩 */
+export const TIRE_VOTE_VALUES = ["up", "down"] as const;
+
+export const tireVoteSchema = z.enum(TIRE_VOTE_VALUES);
+
+export type TireVote = z.infer<typeof tireVoteSchema>;
+
+export const TIRE_FEEDBACK_REASONS = [
+  "tried_disliked",
+  "too_expensive",
+  "size_unavailable",
+  "not_my_use",
+] as const;
+
+export const tireFeedbackReasonSchema = z.enum(TIRE_FEEDBACK_REASONS);
+
+export type TireFeedbackReason = z.infer<typeof tireFeedbackReasonSchema>;
+
+export const TIRE_FEEDBACK_REASON_LABELS: Record<TireFeedbackReason, string> = {
+  tried_disliked: "用过，不喜欢",
+  too_expensive: "太贵",
+  size_unavailable: "买不到我的尺寸",
+  not_my_use: "不适合我的用途",
+};
+
+export const TIRE_FEEDBACK_COMMENT_MAX = 500;
+
+/** tire_feedback 表的插入数据；answers 与分享链接的查询参数同构 */
+export const tireFeedbackInsertSchema = z.object({
+  tire_id: z.string(),
+  rank: z.number().int().min(1),
+  vote: tireVoteSchema,
+  reasons: z.array(tireFeedbackReasonSchema),
+  comment: z.string().max(TIRE_FEEDBACK_COMMENT_MAX).nullable(),
+  answers: z.record(z.string(), z.string()),
+});
+
+export type TireFeedbackInsert = z.infer<typeof tireFeedbackInsertSchema>;
@@ -0,0 +1,100 @@
+/**
+ * 单元测试用的 tires 行：只填评分用到的字段，其余为 null。
+ */
+import type { SourcedTestResult, TestSource, Tire } from "../types";
+
+export function makeTire(overrides: Partial<Tire> & { id: string }): Tire {
+  return {
+    brand: "Brand",
+    model: overrides.id,
+    deleted_at: null,
+    family_id: null,
+    inner_tube: null,
+    price: null,
+    price_reference: null,
+    price_updated_on: null,
+    rating: null,
+    retired: false,
+    rr_med_w: null,
+    rr_high_w: null,
+    rr_extra_high_w: null,
+    rr_ultra_high_w: null,
+    source_site: null,
+    tested_on: null,
+    tire_type: "Tubeless",
+    wet_avg: null,
+    wet_center: null,
+    wet_edge: null,
+    wg_min_center_edge: null,
+    width_measured_mm: null,
+    width_spec_mm: 28,
+    year: 2024,
+    ...overrides,
+  };
+}
+
+/** 四档速度都有滚阻数据的轮胎；rr 为 25km/h 的值，高速档按固定增量递增 */
+export function tested(
+  id: string,
+  { wet, rr, width = 28, price = null }: { wet: number; rr: number; width?: number; price?: number | null }
+): Tire {
+  return makeTire({
+    id,
+    width_spec_mm: width,
+    wet_center: wet,
+    wet_edge: wet,
+    rr_med_w: rr,
+    rr_high_w: rr + 3,
+    rr_extra_high_w: rr + 8,
+    rr_ultra_high_w: rr + 11,
+    price,
+  });
+}
+
+/** 28mm 三条、30mm 两条、缺少湿地数据一条 */
+export const FIXTURE_TIRES: Tire[] = [
+  tested("grip-28", { wet: 80, rr: 12 }),
+  tested("fast-28", { wet: 60, rr: 8 }),
+  tested("mid-28", { wet: 70, rr: 10 }),
+  tested("best-30", { wet: 90, rr: 7, width: 30 }),
+  tested("slow-30", { wet: 50, rr: 14, width: 30 }),
+  makeTire({ id: "no-wet-28", rr_med_w: 6, rr_high_w: 9 }),
+];
+
+/** 一次测试结果，默认属于轮胎 "t"、没有来源 */
+export function makeResult(
+  overrides: Partial<SourcedTestResult> & { id: string }
+): SourcedTestResult {
+  return {
+    created_at: "2026-01-01T00:00:00Z",
+    inner_tube: null,
+    rr_extra_high_w: null,
+    rr_high_w: null,
+    rr_med_w: null,
+    rr_ultra_high_w: null,
+    source: null,
+    source_id: null,
+    source_site: null,
+    tested_on: null,
+    tire_id: "t",
+    wet_avg: null,
+    wet_center: null,
+    wet_edge: null,
+    wg_min_center_edge: null,
+    width_measured_mm: null,
+    ...overrides,
+  };
+}
+
+export function makeSource(overrides: Partial<TestSource> & { id: string; name: string }): TestSource {
+  return {
+    confidence: 0.5,
+    created_at: null,
+    drum_type: null,
+    methodology: null,
+    pressure_bar: null,
+    temperature_c: null,
+    url: null,
+    ...overrides,
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PREFERENCES, clearanceFit, mountedWidth, rankTires } from ".";
+import { FIXTURE_TIRES, makeTire } from "./__fixtures__/tires";
+
+describe("clearanceFit", () => {
+  it("is unknown without a frame clearance or a tire width", () => {
+    expect(clearanceFit(28, null)).toBe("unknown");
+    expect(clearanceFit(null, 30)).toBe("unknown");
+  });
+
+  it("flags tires with less than 1mm to spare", () => {
+    expect(clearanceFit(28, 30)).toBe("ok");
+    expect(clearanceFit(29, 30)).toBe("ok");
+    expect(clearanceFit(29.5, 30)).toBe("tight");
+    expect(clearanceFit(30, 30)).toBe("tight");
+  });
+
+  it("rejects tires wider than the frame allows", () => {
+    expect(clearanceFit(30.1, 30)).toBe("exceeds");
+  });
+});
+
+describe("mountedWidth", () => {
+  it("prefers the measured width and falls back to the nominal one", () => {
+    expect(mountedWidth(makeTire({ id: "a", width_measured_mm: 29.2 }), null)).toBe(29.2);
+    expect(mountedWidth(makeTire({ id: "b" }), null)).toBe(28);
+    expect(mountedWidth(makeTire({ id: "c", width_spec_mm: null }), null)).toBeNull();
+  });
+
+  it("grows about 0.4mm per mm of rim width over the 19mm test rim", () => {
+    expect(mountedWidth(makeTire({ id: "a" }), 23)).toBeCloseTo(29.6);
+    expect(mountedWidth(makeTire({ id: "b" }), 17)).toBeCloseTo(27.2);
+  });
+});
+
+describe("clearance in the ranking", () => {
+  const rank = (frameClearanceMm: number | null, rimWidthMm: number | null = null) =>
+    rankTires(FIXTURE_TIRES, { ...DEFAULT_PREFERENCES, frameClearanceMm, rimWidthMm });
+
+  it("keeps every tire when the frame clearance is unknown", () => {
+    const ranked = rank(null);
+    expect(ranked).toHaveLength(5);
+    expect(ranked.every((t) => t.clearanceFit === "unknown")).toBe(true);
+  });
+
+  it("leaves out tires that do not fit the frame", () => {
+    const ranked = rank(29);
+    expect(ranked.map((t) => t.id)).not.toContain("best-30");
+    expect(ranked.map((t) => t.id)).not.toContain("slow-30");
+    expect(ranked.every((t) => t.clearanceFit === "ok")).toBe(true);
+  });
+
+  it("checks the width mounted on the rider's rim", () => {
+    const ranked = rank(29, 21);
+    expect(ranked).toHaveLength(3);
+    expect(ranked.every((t) => t.clearanceFit === "tight")).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * 车架间隙：装胎后的实际胎宽与车架允许的最大胎宽比较。
+ * 实际胎宽由 mountedWidth 按实测胎宽与轮圈内宽估算。
+ */
+
+/** ok：可以安装；tight：余量不足，提示；exceeds：超出车架间隙，排除；unknown：车架或胎宽未知 */
+export type ClearanceFit = "ok" | "tight" | "exceeds" | "unknown";
+
+/** 装胎宽度距车架最大胎宽不足该值（mm）时提示间隙紧张 */
+export const CLEARANCE_TIGHT_MM = 1;
+
+export interface FramePreset {
+  id: string;
+  name: string;
+  /** 厂商公布的最大胎宽（mm） */
+  clearanceMm: number;
+}
+
+/** 常见车架的最大胎宽，按厂商公布的数据整理；新增车架时在这里补充 */
+export const FRAME_PRESETS: FramePreset[] = [
+  { id: "trek-emonda-2021", name: "Trek Émonda（2021 起）", clearanceMm: 28 },
+  { id: "canyon-aeroad-2021", name: "Canyon Aeroad CF（2021 起）", clearanceMm: 30 },
+  { id: "canyon-ultimate-2022", name: "Canyon Ultimate CF（2022 起）", clearanceMm: 30 },
+  { id: "cannondale-supersix-2023", name: "Cannondale SuperSix EVO（2023 起）", clearanceMm: 30 },
+  { id: "specialized-tarmac-sl7", name: "Specialized Tarmac SL7", clearanceMm: 32 },
+  { id: "specialized-tarmac-sl8", name: "Specialized Tarmac SL8", clearanceMm: 32 },
+  { id: "cervelo-r5-2021", name: "Cervélo R5（2021 起）", clearanceMm: 34 },
+  { id: "trek-domane-gen4", name: "Trek Domane（第 4 代）", clearanceMm: 38 },
+];
+
+export function clearanceFit(
+  mountedWidthMm: number | null,
+  frameClearanceMm: number | null
+): ClearanceFit {
+  if (mountedWidthMm == null || frameClearanceMm == null) return "unknown";
+  const spare = frameClearanceMm - mountedWidthMm;
+  if (spare < 0) return "exceeds";
+  return spare < CLEARANCE_TIGHT_MM ? "tight" : "ok";
+}
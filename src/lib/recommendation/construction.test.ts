@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PREFERENCES, constructionFit, parseConstruction, rankTires } from ".";
+import { makeTire, tested } from "./__fixtures__/tires";
+
+const construction = (tire_type: string | null, inner_tube: string | null = null) =>
+  parseConstruction(makeTire({ id: "t", tire_type, inner_tube }));
+
+describe("parseConstruction", () => {
+  it("recognises English and Chinese tire types", () => {
+    expect(construction("Tubeless Ready").type).toBe("tubeless");
+    expect(construction("TLR").type).toBe("tubeless");
+    expect(construction("开口胎", "乳胶").type).toBe("clincher");
+    expect(construction("Tubular").type).toBe("tubular");
+    expect(construction(null).type).toBe("unknown");
+  });
+
+  it("only keeps the inner tube for clinchers", () => {
+    expect(construction("Clincher", "Latex").innerTube).toBe("latex");
+    expect(construction("Clincher", "TPU").innerTube).toBe("tpu");
+    expect(construction("Tubeless", "Butyl").innerTube).toBeNull();
+  });
+});
+
+describe("constructionFit", () => {
+  it("accepts everything when the rider has no preference", () => {
+    expect(constructionFit(construction("Tubular"), "any")).toBe("match");
+  });
+
+  it("excludes tires that cannot be mounted", () => {
+    expect(constructionFit(construction("Clincher", "Butyl"), "tubeless")).toBe("incompatible");
+    expect(constructionFit(construction("Tubeless"), "tubular")).toBe("incompatible");
+    expect(constructionFit(construction("Tubular"), "clincher-butyl")).toBe("incompatible");
+  });
+
+  it("penalises mountable tires tested under different conditions", () => {
+    expect(constructionFit(construction("Tubeless"), "clincher-light")).toBe("partial");
+    expect(constructionFit(construction("Clincher", "Butyl"), "clincher-light")).toBe("partial");
+    expect(constructionFit(construction(null), "tubeless")).toBe("partial");
+  });
+
+  it("matches the inner tube the tire was tested with", () => {
+    expect(constructionFit(construction("Clincher", "Latex"), "clincher-light")).toBe("match");
+    expect(constructionFit(construction("Clincher", "Butyl"), "clincher-butyl")).toBe("match");
+  });
+});
+
+describe("construction in ranking", () => {
+  const tires = [
+    { ...tested("tubeless", { wet: 60, rr: 10 }), tire_type: "Tubeless" },
+    { ...tested("clincher", { wet: 80, rr: 10 }), tire_type: "Clincher", inner_tube: "Butyl" },
+    { ...tested("tubular", { wet: 70, rr: 10 }), tire_type: "Tubular" },
+  ];
+
+  it("drops incompatible tires and deducts the penalty from partial matches", () => {
+    const ranked = rankTires(tires, { ...DEFAULT_PREFERENCES, setupPref: "clincher-light" });
+    expect(ranked.map((t) => t.id).sort()).toEqual(["clincher", "tubeless"]);
+    expect(ranked.every((t) => t.constructionFit === "partial")).toBe(true);
+    expect(ranked[0].breakdown.constructionPenalty).toBeGreaterThan(0);
+  });
+});
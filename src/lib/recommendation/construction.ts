@@ -0,0 +1,79 @@
+/**
+ * 轮胎结构（真空 / 开口 / 管胎）与测试所用内胎的识别，以及与骑手安装方式的兼容判断。
+ * tires 表中 tire_type / inner_tube 为自由文本，这里做宽松匹配。
+ */
+import type { SetupPreference, Tire } from "./types";
+
+export type TireType = "tubeless" | "clincher" | "tubular" | "unknown";
+export type InnerTube = "butyl" | "latex" | "tpu";
+
+export interface TireConstruction {
+  type: TireType;
+  /** 测试时使用的内胎，真空 / 管胎或未知时为 null */
+  innerTube: InnerTube | null;
+}
+
+/** match：完全匹配；partial：能装但测试条件不同，扣分；incompatible：无法安装，排除 */
+export type ConstructionFit = "match" | "partial" | "incompatible";
+
+/** partial 匹配时从总分（0–100）中扣除的分数 */
+export const CONSTRUCTION_PENALTY = 10;
+
+export function parseConstruction(tire: Tire): TireConstruction {
+  const rawType = (tire.tire_type || "").toLowerCase();
+  const rawTube = (tire.inner_tube || "").toLowerCase();
+
+  let type: TireType = "unknown";
+  if (/tubular|管胎/.test(rawType)) type = "tubular";
+  else if (/tubeless|\btlr?\b|真空/.test(rawType)) type = "tubeless";
+  else if (/clincher|开口/.test(rawType)) type = "clincher";
+
+  let innerTube: InnerTube | null = null;
+  if (/latex|乳胶/.test(rawTube)) innerTube = "latex";
+  else if (/tpu/.test(rawTube)) innerTube = "tpu";
+  else if (/butyl|丁基/.test(rawTube)) innerTube = "butyl";
+
+  return { type, innerTube: type === "clincher" ? innerTube : null };
+}
+
+export function constructionFit(
+  construction: TireConstruction,
+  setupPref: SetupPreference
+): ConstructionFit {
+  const { type, innerTube } = construction;
+  if (setupPref === "any") return "match";
+  if (type === "unknown") return "partial";
+
+  switch (setupPref) {
+    case "tubeless":
+      return type === "tubeless" ? "match" : "incompatible";
+    case "tubular":
+      return type === "tubular" ? "match" : "incompatible";
+    case "clincher-butyl":
+    case "clincher-light": {
+      if (type === "tubular") return "incompatible";
+      // 真空胎也能装内胎，但滚阻数据是无内胎条件下测得
+      if (type === "tubeless") return "partial";
+      const wantsLight = setupPref === "clincher-light";
+      const testedLight = innerTube === "latex" || innerTube === "tpu";
+      return innerTube != null && wantsLight === testedLight ? "match" : "partial";
+    }
+  }
+}
+
+const TYPE_LABEL: Record<TireType, string> = {
+  tubeless: "真空胎",
+  clincher: "开口胎",
+  tubular: "管胎",
+  unknown: "结构未知",
+};
+
+const TUBE_LABEL: Record<InnerTube, string> = {
+  butyl: "丁基内胎",
+  latex: "乳胶内胎",
+  tpu: "TPU 内胎",
+};
+
+export function formatConstruction({ type, innerTube }: TireConstruction): string {
+  return innerTube ? `${TYPE_LABEL[type]} · ${TUBE_LABEL[innerTube]}` : TYPE_LABEL[type];
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PREFERENCES, explainTire, rankTires } from ".";
+import { FIXTURE_TIRES, tested } from "./__fixtures__/tires";
+
+describe("explainTire", () => {
+  const ranked = rankTires(FIXTURE_TIRES, DEFAULT_PREFERENCES);
+  const explain = (id: string) =>
+    explainTire(ranked.find((t) => t.id === id)!, ranked, DEFAULT_PREFERENCES);
+
+  it("names the width class when percentiles were computed within it", () => {
+    expect(explain("grip-28")).toContain("的已测 28mm 轮胎");
+  });
+
+  it("does not claim a same-width comparison after falling back to all tires", () => {
+    const text = explain("best-30");
+    expect(text).not.toContain("30mm 轮胎");
+    expect(text).not.toContain("同规格");
+    expect(text).toContain("的已测轮胎");
+  });
+
+  it("compares lower-ranked tires with #1", () => {
+    expect(explain("grip-28")).toContain("本次推荐第一");
+    expect(explain("mid-28")).toContain("比第 1 名低");
+  });
+
+  it("does not report a negative gap when #1 leads only by the width preference", () => {
+    const best = ranked.find((t) => t.id === "best-30")!;
+    expect(best.score).toBeGreaterThan(ranked[0].score);
+    const text = explain("best-30");
+    expect(text).not.toContain("低 -");
+    expect(text).toContain("综合得分比第 1 名高");
+    expect(text).toContain("因不在优先胎宽内排在其后");
+  });
+
+  it("compares the value score in value mode", () => {
+    const preferences = { ...DEFAULT_PREFERENCES, sortMode: "value" as const };
+    const valueRanked = rankTires(
+      [
+        tested("cheap", { wet: 70, rr: 10, price: 200 }),
+        tested("premium", { wet: 80, rr: 8, price: 450 }),
+        tested("mid", { wet: 60, rr: 12, price: 300 }),
+      ],
+      preferences
+    );
+    const second = valueRanked[1];
+    const text = explainTire(second, valueRanked, preferences);
+    expect(second.valueScore!).toBeLessThan(valueRanked[0].valueScore!);
+    expect(text).toContain("每 ¥100 性能分比第 1 名低");
+    expect(text).not.toContain("低 -");
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * 本地规则生成的推荐理由：引用实际测试数值，并与同一批推荐中的第 1 名对比。
+ * 与 explain_tires 云函数的输入一致，作为其失败时的兜底，也可在关闭 AI 理由时直接使用。
+ */
+import { formatConstruction } from "./construction";
+import { priceOf } from "./pricing";
+import type { RecommendationPreferences, TireWithScore } from "./types";
+
+/** 差值小于该值视为持平，不单独说明 */
+const WG_EPSILON = 0.5;
+const RR_EPSILON_W = 0.1;
+
+const fmt = (value: number, digits = 1) => value.toFixed(digits).replace(/\.0+$/, "");
+
+/** 百分位比较的对象：同规格样本足够时按胎宽比较，否则与全部已测轮胎比较 */
+export const peerGroupLabel = (tire: TireWithScore) =>
+  tire.widthClass != null ? ` ${tire.widthClass}mm ` : "";
+
+/**
+ * 与第 1 名按当前排序依据比较：性价比模式比每 ¥100 性能分，否则比综合得分。
+ * 优先胎宽组排在前面，第 1 名不一定分数最高。
+ */
+function describeRank(
+  tire: TireWithScore,
+  leader: TireWithScore | null,
+  preferences: RecommendationPreferences
+): string {
+  const headline = `综合得分 ${fmt(tire.score)}`;
+  if (!leader) return headline;
+
+  const byValue =
+    preferences.sortMode === "value" && tire.valueScore != null && leader.valueScore != null;
+  const label = byValue ? "每 ¥100 性能分" : "综合得分";
+  const diff = byValue ? leader.valueScore! - tire.valueScore! : leader.score - tire.score;
+  const gap = fmt(Math.abs(diff));
+
+  if (gap === "0") return `${headline}，${label}与第 1 名持平`;
+  if (diff > 0) return `${headline}，${label}比第 1 名低 ${gap}`;
+  return `${headline}，${label}比第 1 名高 ${gap}，因不在优先胎宽内排在其后`;
+}
+
+function describeWet(tire: TireWithScore, leader: TireWithScore | null): string {
+  const parts = [`湿地抓地 ${fmt(tire.wg)}`];
+  if (tire.wet_center != null && tire.wet_edge != null) {
+    parts[0] += `（中心 ${fmt(tire.wet_center)} / 边缘 ${fmt(tire.wet_edge)}）`;
+  }
+  parts.push(`优于 ${Math.round(tire.wgPercentile)}% 的已测${peerGroupLabel(tire)}轮胎`);
+
+  if (leader) {
+    const diff = tire.wg - leader.wg;
+    if (Math.abs(diff) >= WG_EPSILON) {
+      parts.push(`比第 1 名${diff > 0 ? "高" : "低"} ${fmt(Math.abs(diff))}`);
+    }
+  }
+  return parts.join("，");
+}
+
+function describeRollingResistance(tire: TireWithScore, leader: TireWithScore | null): string {
+  const pressure = tire.pressureBar != null ? `（约 ${fmt(tire.pressureBar)} bar）` : "";
+  const parts = [`${tire.rrSpeedKmh}km/h 滚阻 ${fmt(tire.rr)}W${pressure}`];
+  parts.push(`低于 ${Math.round(tire.rrPercentile)}% 的已测${peerGroupLabel(tire)}轮胎`);
+
+  if (leader) {
+    const diff = tire.rr - leader.rr;
+    if (Math.abs(diff) >= RR_EPSILON_W) {
+      parts.push(`在 ${tire.rrSpeedKmh}km/h 比第 1 名${diff > 0 ? "多耗" : "省"} ${fmt(Math.abs(diff))}W`);
+    }
+  }
+  return parts.join("，");
+}
+
+function describePrice(
+  tire: TireWithScore,
+  leader: TireWithScore | null,
+  preferences: RecommendationPreferences
+): string | null {
+  const price = priceOf(tire);
+  if (price == null) return null;
+
+  const parts = [`参考价 ¥${price}`];
+  if (preferences.sortMode === "value" && tire.valueScore != null) {
+    parts.push(`每 ¥100 性能分 ${fmt(tire.valueScore)}`);
+  }
+  const leaderPrice = leader ? priceOf(leader) : null;
+  if (leaderPrice != null && leaderPrice !== price) {
+    parts.push(`比第 1 名${price < leaderPrice ? "便宜" : "贵"} ¥${fmt(Math.abs(price - leaderPrice), 0)}`);
+  }
+  return parts.join("，");
+}
+
+/**
+ * 为一条推荐生成理由。
+ * @param recommendations 同一批推荐（按名次排列），用于与第 1 名对比
+ */
+export function explainTire(
+  tire: TireWithScore,
+  recommendations: TireWithScore[],
+  preferences: RecommendationPreferences
+): string {
+  const rank = recommendations.findIndex((t) => t.id === tire.id) + 1;
+  const leader = rank > 1 ? recommendations[0] : null;
+
+  const headline =
+    rank === 1
+      ? `综合得分 ${fmt(tire.score)}，本次推荐第一`
+      : describeRank(tire, leader, preferences);
+  const wet = describeWet(tire, leader);
+  const rr = describeRollingResistance(tire, leader);
+  // 按 Q1 的侧重决定先讲湿地还是滚阻
+  const metrics = preferences.wetPref === "not" ? [rr, wet] : [wet, rr];
+
+  const notes: string[] = [];
+  if (tire.constructionFit === "partial") {
+    notes.push(`安装方式（${formatConstruction(tire.construction)}）与偏好不完全一致，已适当扣分`);
+  }
+  if (tire.clearanceFit === "tight" && tire.mountedWidthMm != null) {
+    notes.push(
+      `装上后约 ${fmt(tire.mountedWidthMm)}mm，接近车架最大胎宽 ${fmt(preferences.frameClearanceMm!)}mm，间隙较紧`
+    );
+  } else if (
+    tire.clearanceFit === "unknown" &&
+    tire.widthWarning &&
+    tire.mountedWidthMm != null &&
+    tire.width_spec_mm != null
+  ) {
+    notes.push(
+      `装上后约 ${fmt(tire.mountedWidthMm)}mm，比标称宽 ${fmt(tire.mountedWidthMm - tire.width_spec_mm)}mm，请确认车架间隙`
+    );
+  }
+  const price = describePrice(tire, leader, preferences);
+  if (price) notes.push(price);
+
+  return [headline, ...metrics, ...notes].join("；") + "。";
+}
@@ -0,0 +1,87 @@
+/**
+ * 轮胎推荐引擎：纯函数，不依赖 React / Supabase。
+ * 输入数据库中的轮胎行与问卷答案，输出带分数明细的排序结果。
+ */
+export * from "./types";
+export { rankTires, recommend } from "./ranking";
+export { DEFAULT_PREFERENCES, findSimilarTires } from "./similarity";
+export { WEIGHT_CONFIG, WIDTH_GROUPS, resolveWeights } from "./weights";
+export { durabilityOf, isScorable, resolveMetrics, scoreTire } from "./scoring";
+export {
+  buildDistributions,
+  normalizeMetric,
+  percentileRank,
+  ratioToBest,
+  type MetricDistribution,
+  type NormalizationMethod,
+} from "./normalization";
+export {
+  CONSTRUCTION_PENALTY,
+  constructionFit,
+  formatConstruction,
+  parseConstruction,
+  type ConstructionFit,
+  type TireConstruction,
+} from "./construction";
+export {
+  PRICE_MEDIAN_WINDOW_DAYS,
+  applyPrices,
+  medianPrice,
+  priceHistory,
+  priceOf,
+  priceStatus,
+  valueScore,
+  withinBudget,
+  type PriceMode,
+  type PriceStatus,
+} from "./pricing";
+export {
+  RIDING_SPEED_KMH,
+  RR_COLUMN_SPEEDS,
+  resolveRollingResistance,
+} from "./rolling-resistance";
+export {
+  TEST_RESULT_METRICS,
+  latestTestResult,
+  sortTestResults,
+  withTestResult,
+} from "./test-results";
+export {
+  DEFAULT_CONFIDENCE,
+  applySources,
+  combineTestResults,
+  confidenceOf,
+  type SourceMode,
+} from "./sources";
+export {
+  BAR_TO_PSI,
+  DEFAULT_SYSTEM_WEIGHT_KG,
+  MAX_PRESSURE_BAR,
+  MIN_PRESSURE_BAR,
+  PRESSURE_K,
+  PRESSURE_STYLE_FACTOR,
+  PRESSURE_WIDTH_EXPONENT,
+  REAR_LOAD_SHARE,
+  REFERENCE_RIM_INNER_WIDTH_MM,
+  SURFACE_FACTOR,
+  TEST_PRESSURE_BAR,
+  TUBELESS_FACTOR,
+  WIDE_MOUNT_WARNING_MM,
+  adjustRollingResistance,
+  calculatePressure,
+  clampPressure,
+  mountedWidth,
+  ridingPressureBar,
+  wheelPressureBar,
+  type PressureInput,
+  type RoadSurface,
+} from "./pressure";
+export {
+  CLEARANCE_TIGHT_MM,
+  FRAME_PRESETS,
+  clearanceFit,
+  type ClearanceFit,
+  type FramePreset,
+} from "./clearance";
+export { explainTire, peerGroupLabel } from "./explain";
+export { decodePreferences, encodePreferences } from "./query-params";
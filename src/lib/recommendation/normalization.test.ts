@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { buildDistributions, normalizeMetric, percentileRank, ratioToBest } from ".";
+
+const sample = (widthSpecMm: number | null, wg: number, rr: number) => ({
+  widthSpecMm,
+  wg,
+  rr,
+  price: null,
+  durability: null,
+});
+
+describe("normalizeMetric", () => {
+  const sorted = [10, 12, 14, 20];
+
+  it("scales min-max so that the best value is 1", () => {
+    expect(normalizeMetric(20, sorted, true, "minmax")).toBe(1);
+    expect(normalizeMetric(10, sorted, true, "minmax")).toBe(0);
+    expect(normalizeMetric(15, sorted, true, "minmax")).toBeCloseTo(0.5);
+  });
+
+  it("inverts metrics where lower is better", () => {
+    expect(normalizeMetric(10, sorted, false, "minmax")).toBe(1);
+    expect(normalizeMetric(20, sorted, false, "minmax")).toBe(0);
+  });
+
+  it("clamps values outside the distribution", () => {
+    expect(normalizeMetric(25, sorted, true, "minmax")).toBe(1);
+    expect(normalizeMetric(5, sorted, true, "minmax")).toBe(0);
+  });
+
+  it("ranks by position in percentile mode", () => {
+    expect(normalizeMetric(14, sorted, true, "percentile")).toBeCloseTo(2 / 3);
+    expect(normalizeMetric(14, sorted, false, "percentile")).toBeCloseTo(1 / 3);
+  });
+
+  it("gives full marks when there is nothing to compare against", () => {
+    expect(normalizeMetric(12, [12], true, "minmax")).toBe(1);
+    expect(normalizeMetric(12, [12, 12], true, "minmax")).toBe(1);
+  });
+});
+
+describe("percentileRank", () => {
+  it("counts the share of strictly worse samples", () => {
+    expect(percentileRank(14, [10, 12, 14, 20], true)).toBe(50);
+    expect(percentileRank(14, [10, 12, 14, 20], false)).toBe(25);
+    expect(percentileRank(14, [], true)).toBe(0);
+  });
+});
+
+describe("ratioToBest", () => {
+  it("scales against the best value with a real zero", () => {
+    expect(ratioToBest(60, [60, 80], true)).toBe(0.75);
+    expect(ratioToBest(10, [8, 10], false)).toBe(0.8);
+    expect(ratioToBest(80, [60, 80], true)).toBe(1);
+  });
+
+  it("is 1 without a distribution", () => {
+    expect(ratioToBest(10, [], false)).toBe(1);
+  });
+});
+
+describe("buildDistributions", () => {
+  const distributionFor = buildDistributions([
+    sample(28, 60, 10),
+    sample(28, 70, 11),
+    sample(28, 80, 12),
+    sample(32, 90, 9),
+    sample(32, 50, 13),
+  ]);
+
+  it("compares within a width class with enough samples", () => {
+    const distribution = distributionFor(28);
+    expect(distribution.widthClass).toBe(28);
+    expect(distribution.wg).toEqual([60, 70, 80]);
+  });
+
+  it("falls back to the whole dataset for small or unknown width classes", () => {
+    expect(distributionFor(32).widthClass).toBeNull();
+    expect(distributionFor(32).wg).toHaveLength(5);
+    expect(distributionFor(null).widthClass).toBeNull();
+  });
+});
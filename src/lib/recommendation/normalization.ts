@@ -0,0 +1,100 @@
+/**
+ * 基于当前数据集的指标归一化：按胎宽规格分组统计分布，
+ * 让湿地抓地、滚阻、价格等指标落在同一 0–1 尺度上，并给出百分位排名。
+ */
+
+export type NormalizationMethod = "minmax" | "percentile";
+
+/** 同规格样本少于该数量时退回全量数据，避免单条数据自成满分 */
+const MIN_CLASS_SIZE = 3;
+
+export interface MetricSample {
+  widthSpecMm: number | null;
+  wg: number;
+  rr: number;
+  price: number | null;
+  durability: number | null;
+}
+
+/** 某一胎宽分组的指标分布（升序） */
+export interface MetricDistribution {
+  /** 参与比较的胎宽规格，null 表示使用全量数据 */
+  widthClass: number | null;
+  wg: number[];
+  rr: number[];
+  /** 仅包含有价格 / 耐磨数据的样本 */
+  price: number[];
+  durability: number[];
+}
+
+const ascending = (a: number, b: number) => a - b;
+
+function toDistribution(samples: MetricSample[], widthClass: number | null): MetricDistribution {
+  return {
+    widthClass,
+    wg: samples.map((s) => s.wg).sort(ascending),
+    rr: samples.map((s) => s.rr).sort(ascending),
+    price: samples.map((s) => s.price).filter((v): v is number => v != null).sort(ascending),
+    durability: samples
+      .map((s) => s.durability)
+      .filter((v): v is number => v != null)
+      .sort(ascending),
+  };
+}
+
+/** 返回一个按胎宽查找对应分布的函数 */
+export function buildDistributions(
+  samples: MetricSample[]
+): (widthSpecMm: number | null) => MetricDistribution {
+  const overall = toDistribution(samples, null);
+  const byWidth = new Map<number, MetricDistribution>();
+
+  const widths = new Set(samples.map((s) => s.widthSpecMm).filter((w): w is number => w != null));
+  widths.forEach((width) => {
+    const group = samples.filter((s) => s.widthSpecMm === width);
+    if (group.length >= MIN_CLASS_SIZE) {
+      byWidth.set(width, toDistribution(group, width));
+    }
+  });
+
+  return (widthSpecMm) => (widthSpecMm != null && byWidth.get(widthSpecMm)) || overall;
+}
+
+const countWorse = (value: number, sorted: number[], higherIsBetter: boolean) =>
+  sorted.filter((v) => (higherIsBetter ? v < value : v > value)).length;
+
+/** 百分位排名（0–100）：该值优于分布中多少比例的样本 */
+export function percentileRank(value: number, sorted: number[], higherIsBetter: boolean): number {
+  if (sorted.length === 0) return 0;
+  return (countWorse(value, sorted, higherIsBetter) / sorted.length) * 100;
+}
+
+/** 归一化到 0–1，1 表示分布中最好 */
+export function normalizeMetric(
+  value: number,
+  sorted: number[],
+  higherIsBetter: boolean,
+  method: NormalizationMethod
+): number {
+  if (sorted.length <= 1) return 1;
+  if (method === "percentile") {
+    return countWorse(value, sorted, higherIsBetter) / (sorted.length - 1);
+  }
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (max === min) return 1;
+  const ratio = (value - min) / (max - min);
+  return Math.min(1, Math.max(0, higherIsBetter ? ratio : 1 - ratio));
+}
+
+/**
+ * 相对分布中最好值的比例（0–1），以 0 为真实零点：
+ * 同组最弱的轮胎不会因 min-max 被压成 0，用于性价比这类需要比值的计算。
+ */
+export function ratioToBest(value: number, sorted: number[], higherIsBetter: boolean): number {
+  if (sorted.length === 0) return 1;
+  const best = higherIsBetter ? sorted[sorted.length - 1] : sorted[0];
+  if (higherIsBetter) return best > 0 ? Math.max(0, value) / best : 1;
+  return value > 0 ? Math.max(0, best) / value : 1;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PREFERENCES,
+  DEFAULT_SYSTEM_WEIGHT_KG,
+  MAX_PRESSURE_BAR,
+  MIN_PRESSURE_BAR,
+  REAR_LOAD_SHARE,
+  SURFACE_FACTOR,
+  TEST_PRESSURE_BAR,
+  TUBELESS_FACTOR,
+  adjustRollingResistance,
+  calculatePressure,
+  clampPressure,
+  ridingPressureBar,
+  wheelPressureBar,
+} from ".";
+import { makeTire } from "./__fixtures__/tires";
+
+const tire28 = makeTire({ id: "t", width_spec_mm: 28 });
+const riding = (overrides: Partial<typeof DEFAULT_PREFERENCES>, tire = tire28) =>
+  ridingPressureBar(tire, { ...DEFAULT_PREFERENCES, ...overrides });
+
+describe("wheelPressureBar", () => {
+  it("gives about 5.5 bar for 28mm and a 44kg wheel load", () => {
+    expect(wheelPressureBar(44, 28)).toBeCloseTo(5.5, 1);
+  });
+
+  it("drops with width and rises with load", () => {
+    expect(wheelPressureBar(44, 32)).toBeLessThan(wheelPressureBar(44, 28));
+    expect(wheelPressureBar(50, 28)).toBeGreaterThan(wheelPressureBar(44, 28));
+  });
+});
+
+describe("clampPressure", () => {
+  it("keeps the result within the road tire range", () => {
+    expect(clampPressure(10)).toBe(MAX_PRESSURE_BAR);
+    expect(clampPressure(1)).toBe(MIN_PRESSURE_BAR);
+    expect(clampPressure(5)).toBe(5);
+  });
+});
+
+describe("ridingPressureBar", () => {
+  it("uses the rear wheel load and the default weight when none is given", () => {
+    expect(riding({})).toBeCloseTo(wheelPressureBar(DEFAULT_SYSTEM_WEIGHT_KG * REAR_LOAD_SHARE, 28));
+  });
+
+  it("applies the pressure style", () => {
+    const balanced = riding({})!;
+    expect(riding({ pressureStyle: "firm" })).toBeCloseTo(balanced * 1.1);
+    expect(riding({ pressureStyle: "supple" })).toBeCloseTo(balanced * 0.9);
+  });
+
+  it("clamps after the pressure style", () => {
+    expect(riding({ systemWeightKg: 130, pressureStyle: "firm" }, makeTire({ id: "n", width_spec_mm: 23 }))).toBe(
+      MAX_PRESSURE_BAR
+    );
+    expect(riding({ systemWeightKg: 45, pressureStyle: "supple" }, makeTire({ id: "w", width_spec_mm: 40 }))).toBe(
+      MIN_PRESSURE_BAR
+    );
+  });
+
+  it("is null when the tire width is unknown", () => {
+    expect(riding({}, makeTire({ id: "x", width_spec_mm: null }))).toBeNull();
+  });
+});
+
+describe("calculatePressure", () => {
+  const input = {
+    riderWeightKg: 70,
+    bikeWeightKg: 8,
+    frontLoadShare: 0.45,
+    widthMm: 28,
+    tubeless: false,
+    surface: "smooth" as const,
+  };
+
+  it("splits the load between the front and rear wheel", () => {
+    const { front, rear } = calculatePressure(input);
+    expect(front).toBeCloseTo(wheelPressureBar(78 * 0.45, 28));
+    expect(rear).toBeCloseTo(wheelPressureBar(78 * 0.55, 28));
+  });
+
+  it("applies the surface and tubeless factors before the clamp", () => {
+    const { rear } = calculatePressure({ ...input, tubeless: true, surface: "rough" });
+    expect(rear).toBeCloseTo(wheelPressureBar(78 * 0.55, 28) * SURFACE_FACTOR.rough * TUBELESS_FACTOR);
+
+    // 未乘系数前超过上限，乘完后落回范围内，不应先被截到上限
+    const heavy = { ...input, riderWeightKg: 115, bikeWeightKg: 9, surface: "gravel" as const };
+    expect(wheelPressureBar(124 * 0.55, 28)).toBeGreaterThan(MAX_PRESSURE_BAR);
+    expect(calculatePressure(heavy).rear).toBeCloseTo(wheelPressureBar(124 * 0.55, 28) * SURFACE_FACTOR.gravel);
+  });
+
+  it("clamps once at the end", () => {
+    const light = calculatePressure({ ...input, riderWeightKg: 40, bikeWeightKg: 6, widthMm: 40, surface: "gravel" });
+    expect(light.front).toBe(MIN_PRESSURE_BAR);
+    const heavy = calculatePressure({ ...input, riderWeightKg: 130, bikeWeightKg: 10, widthMm: 23 });
+    expect(heavy.rear).toBe(MAX_PRESSURE_BAR);
+  });
+});
+
+describe("adjustRollingResistance", () => {
+  it("keeps the tested value at the test pressure", () => {
+    expect(adjustRollingResistance(20, TEST_PRESSURE_BAR)).toBeCloseTo(20);
+  });
+
+  it("raises the rolling resistance at lower pressures and lowers it at higher ones", () => {
+    expect(adjustRollingResistance(20, 4.5)).toBeGreaterThan(20);
+    expect(adjustRollingResistance(20, 6.5)).toBeLessThan(20);
+  });
+
+  it("scales with the pressure ratio to the power of 0.35", () => {
+    expect(adjustRollingResistance(20, TEST_PRESSURE_BAR / 2)).toBeCloseTo(20 * Math.pow(2, 0.35));
+  });
+});
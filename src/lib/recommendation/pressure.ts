@@ -0,0 +1,112 @@
+/**
+ * 骑手条件对装胎宽度、胎压与滚阻的影响。
+ * 测试数据在固定轮圈与胎压下得到，这里按骑手的整车重量、轮圈内宽和胎压习惯换算。
+ */
+import type { PressureStyle, RecommendationPreferences, Tire } from "./types";
+
+/** 测试所用轮圈的内宽（mm），实测胎宽基于该轮圈 */
+export const REFERENCE_RIM_INNER_WIDTH_MM = 19;
+
+/** 滚阻测试的胎压（bar） */
+export const TEST_PRESSURE_BAR = 5.5;
+
+/** 未填写整车重量时按该值计算胎压（kg） */
+export const DEFAULT_SYSTEM_WEIGHT_KG = 80;
+
+/** 后轮承担的整车重量比例；推荐时按后轮计算胎压 */
+export const REAR_LOAD_SHARE = 0.55;
+
+export const BAR_TO_PSI = 14.5038;
+
+/** 轮圈内宽每增加 1mm，装上后胎宽约增加的毫米数 */
+const WIDTH_PER_RIM_MM = 0.4;
+
+/**
+ * 胎压 = K × 单轮负重 / 胎宽^1.5（bar、kg、mm），
+ * 即约 15% 胎体下沉量的经验拟合：28mm、后轮负重 44kg 时约 5.5 bar。
+ */
+export const PRESSURE_K = 18.5;
+export const PRESSURE_WIDTH_EXPONENT = 1.5;
+
+/** 计算结果限制在公路胎常用范围内（bar） */
+export const MIN_PRESSURE_BAR = 2.5;
+export const MAX_PRESSURE_BAR = 8;
+
+/** 路面：smooth 平整铺装，rough 粗糙或破损铺装，gravel 碎石 / 土路 */
+export type RoadSurface = "smooth" | "rough" | "gravel";
+
+/** 路面越差胎压越低，减少颠簸损失 */
+export const SURFACE_FACTOR: Record<RoadSurface, number> = {
+  smooth: 1,
+  rough: 0.93,
+  gravel: 0.85,
+};
+
+/** 真空胎不会夹胎，可比有内胎时低约 5% */
+export const TUBELESS_FACTOR = 0.95;
+
+export interface PressureInput {
+  riderWeightKg: number;
+  bikeWeightKg: number;
+  /** 前轮承担的重量比例（0–1） */
+  frontLoadShare: number;
+  widthMm: number;
+  tubeless: boolean;
+  surface: RoadSurface;
+}
+
+/** 胎压习惯相对推荐值的倍数 */
+export const PRESSURE_STYLE_FACTOR: Record<PressureStyle, number> = {
+  firm: 1.1,
+  balanced: 1,
+  supple: 0.9,
+};
+
+/** 滚阻随胎压变化的指数：滚筒上胎压降低 20% 时滚阻约增加 8% */
+const RR_PRESSURE_EXPONENT = 0.35;
+
+/** 装上后比标称宽超过该值（mm）时提示检查车架间隙 */
+export const WIDE_MOUNT_WARNING_MM = 1.5;
+
+/** 装在指定内宽轮圈上的胎宽估算；优先用实测胎宽，缺失时用标称胎宽 */
+export function mountedWidth(tire: Tire, rimInnerWidthMm: number | null): number | null {
+  const base = tire.width_measured_mm ?? tire.width_spec_mm;
+  if (base == null) return null;
+  const rim = rimInnerWidthMm ?? REFERENCE_RIM_INNER_WIDTH_MM;
+  return base + (rim - REFERENCE_RIM_INNER_WIDTH_MM) * WIDTH_PER_RIM_MM;
+}
+
+/** 限制在公路胎常用范围内；各种系数乘完之后最后调用一次 */
+export function clampPressure(bar: number): number {
+  return Math.min(MAX_PRESSURE_BAR, Math.max(MIN_PRESSURE_BAR, bar));
+}
+
+/** 单个车轮在给定负重与胎宽下的推荐胎压（bar），未限制范围 */
+export function wheelPressureBar(loadKg: number, widthMm: number): number {
+  return (PRESSURE_K * loadKg) / Math.pow(widthMm, PRESSURE_WIDTH_EXPONENT);
+}
+
+/** 胎压计算器：前后轮分别按各自负重计算（bar） */
+export function calculatePressure(input: PressureInput): { front: number; rear: number } {
+  const total = input.riderWeightKg + input.bikeWeightKg;
+  const factor = SURFACE_FACTOR[input.surface] * (input.tubeless ? TUBELESS_FACTOR : 1);
+  const pressureFor = (share: number) =>
+    clampPressure(wheelPressureBar(total * share, input.widthMm) * factor);
+  return {
+    front: pressureFor(input.frontLoadShare),
+    rear: pressureFor(1 - input.frontLoadShare),
+  };
+}
+
+/** 按问卷中的骑手条件估算这条轮胎的后轮胎压（bar），胎宽未知时返回 null */
+export function ridingPressureBar(tire: Tire, preferences: RecommendationPreferences): number | null {
+  const width = mountedWidth(tire, preferences.rimWidthMm);
+  if (width == null) return null;
+  const load = (preferences.systemWeightKg ?? DEFAULT_SYSTEM_WEIGHT_KG) * REAR_LOAD_SHARE;
+  return clampPressure(wheelPressureBar(load, width) * PRESSURE_STYLE_FACTOR[preferences.pressureStyle]);
+}
+
+/** 把测试胎压下的滚阻换算到实际胎压 */
+export function adjustRollingResistance(rrWatts: number, pressureBar: number): number {
+  return rrWatts * Math.pow(TEST_PRESSURE_BAR / pressureBar, RR_PRESSURE_EXPONENT);
+}
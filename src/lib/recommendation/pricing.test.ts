@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PREFERENCES,
+  medianPrice,
+  priceHistory,
+  priceOf,
+  rankTires,
+  valueScore,
+  withinBudget,
+  type PriceObservation,
+} from ".";
+import { makeTire, tested } from "./__fixtures__/tires";
+
+const observation = (
+  id: string,
+  price: number,
+  observedOn: string | null,
+  currency = "CNY"
+): PriceObservation => ({
+  id,
+  created_at: null,
+  tire_id: "t",
+  observed_on: observedOn,
+  channel: null,
+  currency,
+  price,
+  url: null,
+});
+
+describe("priceOf", () => {
+  it("treats missing and non-positive prices as unknown", () => {
+    expect(priceOf(makeTire({ id: "a", price: 320 }))).toBe(320);
+    expect(priceOf(makeTire({ id: "b", price: null }))).toBeNull();
+    expect(priceOf(makeTire({ id: "c", price: 0 }))).toBeNull();
+  });
+});
+
+describe("withinBudget", () => {
+  it("keeps every tire when there is no budget", () => {
+    expect(withinBudget(makeTire({ id: "a", price: null }), null)).toBe(true);
+  });
+
+  it("excludes tires over budget or without a price", () => {
+    expect(withinBudget(makeTire({ id: "a", price: 300 }), 300)).toBe(true);
+    expect(withinBudget(makeTire({ id: "b", price: 301 }), 300)).toBe(false);
+    expect(withinBudget(makeTire({ id: "c", price: null }), 300)).toBe(false);
+  });
+});
+
+describe("valueScore", () => {
+  it("is the performance per ¥100", () => {
+    expect(valueScore(60, makeTire({ id: "a", price: 200 }))).toBe(30);
+    expect(valueScore(60, makeTire({ id: "b", price: null }))).toBeNull();
+  });
+
+  it("never goes below 0", () => {
+    expect(valueScore(-5, makeTire({ id: "a", price: 200 }))).toBe(0);
+  });
+});
+
+describe("budget and value ranking", () => {
+  const tires = [
+    tested("premium", { wet: 80, rr: 8, price: 450 }),
+    tested("cheap", { wet: 70, rr: 10, price: 180 }),
+    tested("mid", { wet: 60, rr: 12, price: 260 }),
+    tested("unpriced", { wet: 75, rr: 9 }),
+  ];
+  const ids = (budget: number | null, sortMode: "score" | "value") =>
+    rankTires(tires, { ...DEFAULT_PREFERENCES, budget, sortMode }).map((t) => t.id);
+
+  it("filters by budget", () => {
+    expect(ids(300, "score")).toEqual(["cheap", "mid"]);
+  });
+
+  it("sorts by value and leaves out tires without a price", () => {
+    const ranked = ids(null, "value");
+    expect(ranked).not.toContain("unpriced");
+    expect(ranked[0]).toBe("cheap");
+  });
+
+  it("prefers a cheap, slightly weaker tire over an expensive one", () => {
+    const ranked = rankTires(
+      [
+        tested("premium", { wet: 80, rr: 8, price: 400 }),
+        tested("budget", { wet: 78, rr: 8.5, price: 100 }),
+      ],
+      { ...DEFAULT_PREFERENCES, sortMode: "value" }
+    );
+    expect(ranked.map((t) => t.id)).toEqual(["budget", "premium"]);
+    // 同组最弱也不会被压成 0 分
+    expect(ranked[0].performance).toBeGreaterThan(90);
+    expect(ranked[0].valueScore!).toBeGreaterThan(ranked[1].valueScore! * 3);
+  });
+
+  it("keeps unpriced tires when ranking by score without a budget", () => {
+    expect(ids(null, "score")).toContain("unpriced");
+  });
+});
+
+describe("priceHistory", () => {
+  it("keeps CNY observations, oldest first, with undated ones first", () => {
+    const history = priceHistory([
+      observation("b", 300, "2026-05-01"),
+      observation("usd", 40, "2026-06-01", "USD"),
+      observation("a", 320, null),
+      observation("c", 280, "2026-09-01"),
+    ]);
+    expect(history.map((p) => p.id)).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("medianPrice", () => {
+  it("takes the median within the window before the newest observation", () => {
+    const prices = [
+      observation("old", 500, "2025-01-01"),
+      observation("a", 300, "2026-05-01"),
+      observation("b", 260, "2026-07-01"),
+      observation("c", 280, "2026-09-01"),
+    ];
+    expect(medianPrice(prices)).toBe(280);
+  });
+
+  it("leaves undated observations out once dated ones exist", () => {
+    expect(medianPrice([observation("a", 500, null), observation("b", 300, "2026-09-01")])).toBe(300);
+  });
+
+  it("uses every observation when none is dated", () => {
+    expect(medianPrice([observation("a", 300, null), observation("b", 320, null)])).toBe(310);
+  });
+
+  it("is null without observations", () => {
+    expect(medianPrice([])).toBeNull();
+  });
+});
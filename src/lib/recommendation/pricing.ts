@@ -0,0 +1,83 @@
+/**
+ * 价格相关：预算筛选、性价比（每百元得分）计算与价格历史。
+ * price 为空或非正数视为价格未知，预算与性价比模式下会被明确排除。
+ */
+import type { PriceObservation, Tire } from "./types";
+
+export type PriceStatus = "known" | "unknown";
+
+/** latest：最新一次价格（tires.price）；median：近期价格的中位数，平滑促销波动 */
+export type PriceMode = "latest" | "median";
+
+/** 计算中位数时只看最近这些天的观测 */
+export const PRICE_MEDIAN_WINDOW_DAYS = 180;
+
+/** 只使用人民币价格，其他币种暂不换算 */
+const PRICE_CURRENCY = "CNY";
+
+export function priceOf(tire: Tire): number | null {
+  return tire.price != null && tire.price > 0 ? tire.price : null;
+}
+
+export function priceStatus(tire: Tire): PriceStatus {
+  return priceOf(tire) == null ? "unknown" : "known";
+}
+
+/** 预算为 null 表示不限，此时价格未知的轮胎照常参与 */
+export function withinBudget(tire: Tire, budget: number | null): boolean {
+  if (budget == null) return true;
+  const price = priceOf(tire);
+  return price != null && price <= budget;
+}
+
+/**
+ * 每 ¥100 对应的性能分；价格未知返回 null。
+ * 传入的分数需以 0 为真实零点（见 scoring 的 performance），低于 0 按 0 计。
+ */
+export function valueScore(performance: number, tire: Tire): number | null {
+  const price = priceOf(tire);
+  return price == null ? null : (Math.max(0, performance) / price) * 100;
+}
+
+/** 人民币价格观测，按日期从旧到新；日期未知的（回填的旧快照）排最前 */
+export function priceHistory(prices: PriceObservation[]): PriceObservation[] {
+  return prices
+    .filter((p) => p.currency === PRICE_CURRENCY)
+    .sort(
+      (a, b) =>
+        (a.observed_on ?? "").localeCompare(b.observed_on ?? "") ||
+        (a.created_at ?? "").localeCompare(b.created_at ?? "")
+    );
+}
+
+/**
+ * 最近一次观测往前 PRICE_MEDIAN_WINDOW_DAYS 天内的价格中位数；没有观测返回 null。
+ * 有日期的观测时不计日期未知的；全部日期未知时取全部观测。
+ */
+export function medianPrice(prices: PriceObservation[]): number | null {
+  const history = priceHistory(prices);
+  const latest = history[history.length - 1];
+  if (!latest) return null;
+
+  const since = latest.observed_on ? new Date(latest.observed_on) : null;
+  since?.setDate(since.getDate() - PRICE_MEDIAN_WINDOW_DAYS);
+  const values = history
+    .filter((p) => since == null || (p.observed_on != null && new Date(p.observed_on) >= since))
+    .map((p) => p.price)
+    .sort((a, b) => a - b);
+  const mid = Math.floor(values.length / 2);
+  return values.length % 2 ? values[mid] : (values[mid - 1] + values[mid]) / 2;
+}
+
+/** 按取价方式替换各轮胎的 price（取整到元）；latest 时原样返回，没有历史的轮胎保持不变 */
+export function applyPrices(tires: Tire[], prices: PriceObservation[], mode: PriceMode): Tire[] {
+  if (mode === "latest") return tires;
+  const byTire = new Map<string, PriceObservation[]>();
+  for (const price of prices) {
+    byTire.set(price.tire_id, [...(byTire.get(price.tire_id) ?? []), price]);
+  }
+  return tires.map((tire) => {
+    const median = medianPrice(byTire.get(tire.id) ?? []);
+    return median == null ? tire : { ...tire, price: Math.round(median) };
+  });
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PREFERENCES, decodePreferences, encodePreferences } from ".";
+import type { RecommendationPreferences } from ".";
+
+const roundTrip = (preferences: RecommendationPreferences) =>
+  decodePreferences(new URLSearchParams(encodePreferences(preferences).toString()));
+
+describe("query params", () => {
+  it("round-trips the default answers", () => {
+    expect(roundTrip(DEFAULT_PREFERENCES)).toEqual({ ...DEFAULT_PREFERENCES, weights: undefined });
+  });
+
+  it("round-trips every question and custom weights", () => {
+    const preferences: RecommendationPreferences = {
+      wetPref: "very",
+      widthPref: "wider",
+      speedPref: "time-trial",
+      setupPref: "clincher-light",
+      budget: 300,
+      sortMode: "value",
+      systemWeightKg: 95,
+      rimWidthMm: 23,
+      pressureStyle: "supple",
+      frameClearanceMm: 30,
+      weights: { wg: 0.5, rr: 0.3, price: 0.2, durability: 0 },
+    };
+    expect(roundTrip(preferences)).toEqual(preferences);
+  });
+
+  it("returns null when no question is in the URL", () => {
+    expect(decodePreferences(new URLSearchParams("utm_source=x"))).toBeNull();
+  });
+
+  it("restores a link that only carries later questions", () => {
+    expect(decodePreferences(new URLSearchParams("q3=racing"))).toMatchObject({
+      wetPref: DEFAULT_PREFERENCES.wetPref,
+      speedPref: "racing",
+    });
+    expect(decodePreferences(new URLSearchParams("fc=28"))?.frameClearanceMm).toBe(28);
+    expect(decodePreferences(new URLSearchParams("w=100,0,0,0"))?.weights).toEqual({
+      wg: 1,
+      rr: 0,
+      price: 0,
+      durability: 0,
+    });
+  });
+
+  it("falls back to defaults for invalid values", () => {
+    const decoded = decodePreferences(new URLSearchParams("q1=maybe&q5=-1&w=1,2&kg=abc"));
+    expect(decoded).toMatchObject({
+      wetPref: DEFAULT_PREFERENCES.wetPref,
+      budget: null,
+      systemWeightKg: null,
+      weights: undefined,
+    });
+  });
+});
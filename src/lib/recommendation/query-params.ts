@@ -0,0 +1,114 @@
+/**
+ * 问卷答案与 URL 查询参数的互相转换，用于分享与刷新后恢复结果。
+ * 新增问题时在 PARAM 与 decodePreferences 中补充对应字段即可。
+ */
+import type {
+  MetricKey,
+  PressureStyle,
+  RecommendationPreferences,
+  ScoreWeights,
+  SetupPreference,
+  SortMode,
+  SpeedPreference,
+  WetPreference,
+  WidthPreference,
+} from "./types";
+import { DEFAULT_PREFERENCES } from "./similarity";
+
+const PARAM = {
+  wetPref: "q1",
+  widthPref: "q2",
+  speedPref: "q3",
+  setupPref: "q4",
+  budget: "q5",
+  sortMode: "sort",
+  systemWeightKg: "kg",
+  rimWidthMm: "rim",
+  pressureStyle: "p",
+  frameClearanceMm: "fc",
+  weights: "w",
+} as const;
+
+const WET_VALUES: WetPreference[] = ["very", "normal", "not"];
+const WIDTH_VALUES: WidthPreference[] = ["28", "wider"];
+const SPEED_VALUES: SpeedPreference[] = ["recreational", "training", "racing", "time-trial"];
+const SETUP_VALUES: SetupPreference[] = [
+  "any",
+  "tubeless",
+  "clincher-butyl",
+  "clincher-light",
+  "tubular",
+];
+const SORT_VALUES: SortMode[] = ["score", "value"];
+const PRESSURE_VALUES: PressureStyle[] = ["firm", "balanced", "supple"];
+/** 自定义权重在 URL 中的顺序 */
+const WEIGHT_ORDER: MetricKey[] = ["wg", "rr", "price", "durability"];
+
+const pick = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+export function encodePreferences(preferences: RecommendationPreferences): URLSearchParams {
+  const params = new URLSearchParams({
+    [PARAM.wetPref]: preferences.wetPref,
+    [PARAM.widthPref]: preferences.widthPref,
+    [PARAM.speedPref]: preferences.speedPref,
+    [PARAM.setupPref]: preferences.setupPref,
+  });
+  if (preferences.budget != null) params.set(PARAM.budget, String(preferences.budget));
+  if (preferences.sortMode !== "score") params.set(PARAM.sortMode, preferences.sortMode);
+  if (preferences.systemWeightKg != null) {
+    params.set(PARAM.systemWeightKg, String(preferences.systemWeightKg));
+  }
+  if (preferences.rimWidthMm != null) params.set(PARAM.rimWidthMm, String(preferences.rimWidthMm));
+  if (preferences.pressureStyle !== "balanced") {
+    params.set(PARAM.pressureStyle, preferences.pressureStyle);
+  }
+  if (preferences.frameClearanceMm != null) {
+    params.set(PARAM.frameClearanceMm, String(preferences.frameClearanceMm));
+  }
+  if (preferences.weights) {
+    // 权重以百分数整数保存，缩短链接
+    params.set(
+      PARAM.weights,
+      WEIGHT_ORDER.map((key) => Math.round(preferences.weights![key] * 100)).join(",")
+    );
+  }
+  return params;
+}
+
+function decodeWeights(raw: string | null): ScoreWeights | undefined {
+  if (!raw) return undefined;
+  const values = raw.split(",").map(Number);
+  if (values.length !== WEIGHT_ORDER.length || values.some((v) => !Number.isFinite(v) || v < 0)) {
+    return undefined;
+  }
+  return Object.fromEntries(WEIGHT_ORDER.map((key, i) => [key, values[i] / 100])) as ScoreWeights;
+}
+
+/** URL 中没有任何问卷参数时返回 null；非法值回退到默认答案 */
+export function decodePreferences(params: URLSearchParams): RecommendationPreferences | null {
+  if (!Object.values(PARAM).some((key) => params.has(key))) return null;
+
+  const budget = Number(params.get(PARAM.budget));
+  const systemWeightKg = Number(params.get(PARAM.systemWeightKg));
+  const rimWidthMm = Number(params.get(PARAM.rimWidthMm));
+  const frameClearanceMm = Number(params.get(PARAM.frameClearanceMm));
+  return {
+    wetPref: pick(params.get(PARAM.wetPref), WET_VALUES, DEFAULT_PREFERENCES.wetPref),
+    widthPref: pick(params.get(PARAM.widthPref), WIDTH_VALUES, DEFAULT_PREFERENCES.widthPref),
+    speedPref: pick(params.get(PARAM.speedPref), SPEED_VALUES, DEFAULT_PREFERENCES.speedPref),
+    setupPref: pick(params.get(PARAM.setupPref), SETUP_VALUES, DEFAULT_PREFERENCES.setupPref),
+    budget: params.has(PARAM.budget) && budget > 0 ? budget : null,
+    sortMode: pick(params.get(PARAM.sortMode), SORT_VALUES, DEFAULT_PREFERENCES.sortMode),
+    systemWeightKg: params.has(PARAM.systemWeightKg) && systemWeightKg > 0 ? systemWeightKg : null,
+    rimWidthMm: params.has(PARAM.rimWidthMm) && rimWidthMm > 0 ? rimWidthMm : null,
+    pressureStyle: pick(
+      params.get(PARAM.pressureStyle),
+      PRESSURE_VALUES,
+      DEFAULT_PREFERENCES.pressureStyle
+    ),
+    frameClearanceMm:
+      params.has(PARAM.frameClearanceMm) && frameClearanceMm > 0 ? frameClearanceMm : null,
+    weights: decodeWeights(params.get(PARAM.weights)),
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PREFERENCES, rankTires, recommend } from ".";
+import type { RecommendationPreferences } from ".";
+import { FIXTURE_TIRES } from "./__fixtures__/tires";
+
+const prefs = (overrides: Partial<RecommendationPreferences> = {}): RecommendationPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...overrides,
+});
+
+const ids = (tires: { id: string }[]) => tires.map((t) => t.id);
+
+describe("rankTires", () => {
+  it("excludes tires the engine cannot score", () => {
+    expect(ids(rankTires(FIXTURE_TIRES, prefs()))).not.toContain("no-wet-28");
+  });
+
+  it("puts the preferred width group first, each group sorted by score", () => {
+    expect(ids(rankTires(FIXTURE_TIRES, prefs({ widthPref: "28" })))).toEqual([
+      "grip-28",
+      "mid-28",
+      "fast-28",
+      "best-30",
+      "slow-30",
+    ]);
+    expect(ids(rankTires(FIXTURE_TIRES, prefs({ widthPref: "wider" })))).toEqual([
+      "best-30",
+      "slow-30",
+      "grip-28",
+      "mid-28",
+      "fast-28",
+    ]);
+  });
+
+  it("explains the score as the sum of weighted metric contributions", () => {
+    const [top] = rankTires(FIXTURE_TIRES, prefs({ wetPref: "normal" }));
+    const { metrics, constructionPenalty } = top.breakdown;
+
+    expect(top.id).toBe("grip-28");
+    // 同规格中湿地最好、滚阻最差：只拿到湿地的 60% 权重
+    expect(metrics.wg).toMatchObject({ norm: 1, weight: 0.6 });
+    expect(metrics.rr.norm).toBeCloseTo(0);
+    expect(metrics.wg.contribution).toBeCloseTo(60);
+    expect(constructionPenalty).toBe(0);
+
+    const sum = Object.values(metrics).reduce((total, m) => total + m.contribution, 0);
+    expect(top.score).toBeCloseTo(sum - constructionPenalty);
+  });
+
+  it("follows the Q1 weights", () => {
+    const [top] = rankTires(FIXTURE_TIRES, prefs({ wetPref: "not" }));
+    expect(top.id).toBe("fast-28");
+    expect(top.breakdown.metrics.rr.weight).toBeCloseTo(0.65);
+  });
+});
+
+describe("recommend", () => {
+  it("returns the Top 3 from the preferred width group before other widths", () => {
+    expect(ids(recommend(FIXTURE_TIRES, prefs()))).toEqual(["grip-28", "mid-28", "fast-28"]);
+  });
+
+  it("fills the remaining slots from other widths", () => {
+    const result = recommend(FIXTURE_TIRES, prefs({ widthPref: "wider" }));
+    expect(ids(result)).toEqual(["best-30", "slow-30", "grip-28"]);
+  });
+
+  it("honours the limit option", () => {
+    expect(recommend(FIXTURE_TIRES, prefs(), { limit: 1 })).toHaveLength(1);
+  });
+});
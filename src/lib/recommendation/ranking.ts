@@ -0,0 +1,60 @@
+import type {
+  RecommendOptions,
+  RecommendationPreferences,
+  Tire,
+  TireWithScore,
+} from "./types";
+import {
+  byScoreDesc,
+  byValueDesc,
+  isScorable,
+  resolveMetrics,
+  scoreTire,
+} from "./scoring";
+import { priceOf, withinBudget } from "./pricing";
+import { buildDistributions } from "./normalization";
+import { WIDTH_GROUPS } from "./weights";
+
+const DEFAULT_LIMIT = 3;
+
+/** 对所有可评分的轮胎打分并按胎宽偏好排序（优先胎宽在前，各组内按分数或性价比降序） */
+export function rankTires(
+  tires: Tire[],
+  preferences: RecommendationPreferences,
+  options: RecommendOptions = {}
+): TireWithScore[] {
+  const scorable = tires.filter(isScorable);
+  const distributionFor = buildDistributions(
+    scorable.map((t) => ({ widthSpecMm: t.width_spec_mm, ...resolveMetrics(t, preferences) }))
+  );
+  // 分布基于全部已测轮胎，百分位标签不随安装方式筛选变化
+  const scored = scorable
+    .map((t) =>
+      scoreTire(t, preferences, distributionFor(t.width_spec_mm), options.normalization)
+    )
+    .filter((t) => t.constructionFit !== "incompatible")
+    // 装上后超出车架间隙的轮胎无法安装
+    .filter((t) => t.clearanceFit !== "exceeds")
+    .filter((t) => withinBudget(t, preferences.budget))
+    // 性价比模式无法评估价格未知的轮胎
+    .filter((t) => preferences.sortMode !== "value" || priceOf(t) != null);
+  const compare = preferences.sortMode === "value" ? byValueDesc : byScoreDesc;
+
+  const preferredWidths = WIDTH_GROUPS[preferences.widthPref];
+  const isPreferred = (t: TireWithScore) =>
+    preferredWidths.includes(t.width_spec_mm || 0);
+
+  const preferred = scored.filter(isPreferred).sort(compare);
+  const others = scored.filter((t) => !isPreferred(t)).sort(compare);
+
+  return [...preferred, ...others];
+}
+
+export function recommend(
+  tires: Tire[],
+  preferences: RecommendationPreferences,
+  options: RecommendOptions = {}
+): TireWithScore[] {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  return rankTires(tires, preferences, options).slice(0, limit);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PREFERENCES, rankTires, resolveRollingResistance } from ".";
+import { makeTire } from "./__fixtures__/tires";
+
+describe("resolveRollingResistance", () => {
+  const full = makeTire({
+    id: "full",
+    rr_med_w: 10,
+    rr_high_w: 13,
+    rr_extra_high_w: 18,
+    rr_ultra_high_w: 21,
+  });
+
+  it("returns the column measured at the target speed", () => {
+    expect(resolveRollingResistance(full, 25)).toBe(10);
+    expect(resolveRollingResistance(full, 45)).toBe(21);
+  });
+
+  it("interpolates between neighbouring columns", () => {
+    expect(resolveRollingResistance(full, 35)).toBeCloseTo(15.5);
+  });
+
+  it("interpolates across a missing column", () => {
+    const gap = makeTire({ id: "gap", rr_med_w: 10, rr_extra_high_w: 18 });
+    expect(resolveRollingResistance(gap, 30)).toBeCloseTo(12.67, 2);
+  });
+
+  it("scales the nearest column by speed outside the measured range", () => {
+    const slowOnly = makeTire({ id: "slow-only", rr_med_w: 11 });
+    expect(resolveRollingResistance(slowOnly, 45)).toBeCloseTo(19.8);
+
+    const fastOnly = makeTire({ id: "fast-only", rr_ultra_high_w: 18 });
+    expect(resolveRollingResistance(fastOnly, 30)).toBeCloseTo(12);
+  });
+
+  it("returns null without any rolling resistance data", () => {
+    expect(resolveRollingResistance(makeTire({ id: "none" }), 30)).toBeNull();
+  });
+});
+
+const allSpeeds = (id: string, [med, high, extraHigh, ultraHigh]: number[]) =>
+  makeTire({
+    id,
+    wet_center: 70,
+    wet_edge: 70,
+    rr_med_w: med,
+    rr_high_w: high,
+    rr_extra_high_w: extraHigh,
+    rr_ultra_high_w: ultraHigh,
+  });
+
+describe("speed-aware ranking", () => {
+  it("does not let a tire measured only at 25km/h win at time-trial speed", () => {
+    const tires = [
+      makeTire({ id: "slow-only", wet_center: 70, wet_edge: 70, rr_med_w: 11 }),
+      // 每一档速度都比 slow-only 在 25km/h 的 11W 更快或相当
+      allSpeeds("a", [8, 10, 14, 16]),
+      allSpeeds("b", [8, 10, 14, 17]),
+    ];
+    const ranked = rankTires(tires, { ...DEFAULT_PREFERENCES, speedPref: "time-trial" });
+    expect(ranked[ranked.length - 1].id).toBe("slow-only");
+    expect(ranked[0].rrSpeedKmh).toBe(45);
+  });
+
+  it("ranks differently for commuters and triathletes", () => {
+    // low-speed：25km/h 最快但高速增幅大；high-speed 相反
+    const tires = [
+      makeTire({ id: "low-speed", wet_center: 70, wet_edge: 70, rr_med_w: 8, rr_ultra_high_w: 22 }),
+      makeTire({ id: "high-speed", wet_center: 70, wet_edge: 70, rr_med_w: 10, rr_ultra_high_w: 16 }),
+      makeTire({ id: "middle", wet_center: 70, wet_edge: 70, rr_med_w: 9, rr_ultra_high_w: 19 }),
+    ];
+    const top = (speedPref: "recreational" | "time-trial") =>
+      rankTires(tires, { ...DEFAULT_PREFERENCES, speedPref })[0].id;
+    expect(top("recreational")).toBe("low-speed");
+    expect(top("time-trial")).toBe("high-speed");
+  });
+});
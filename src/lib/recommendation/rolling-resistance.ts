@@ -0,0 +1,43 @@
+import type { SpeedPreference, Tire } from "./types";
+
+type RrColumn = "rr_med_w" | "rr_high_w" | "rr_extra_high_w" | "rr_ultra_high_w";
+
+/** tires 表中各滚阻列对应的测试速度（km/h），按速度升序 */
+export const RR_COLUMN_SPEEDS: { column: RrColumn; speedKmh: number }[] = [
+  { column: "rr_med_w", speedKmh: 25 },
+  { column: "rr_high_w", speedKmh: 30 },
+  { column: "rr_extra_high_w", speedKmh: 40 },
+  { column: "rr_ultra_high_w", speedKmh: 45 },
+];
+
+/** Q3 骑行速度对应的典型巡航速度（km/h） */
+export const RIDING_SPEED_KMH: Record<SpeedPreference, number> = {
+  recreational: 25,
+  training: 30,
+  racing: 38,
+  "time-trial": 45,
+};
+
+/**
+ * 取目标速度下的滚阻：命中某一列直接返回；落在两列之间做线性插值；
+ * 超出已有数据范围时按最近的非空列换算（滚阻系数不变时功率与速度成正比），
+ * 避免低速数据与其他轮胎的高速数据直接比较。全部为空返回 null。
+ */
+export function resolveRollingResistance(tire: Tire, speedKmh: number): number | null {
+  const points = RR_COLUMN_SPEEDS.filter(({ column }) => tire[column] != null).map(
+    ({ column, speedKmh }) => ({ speedKmh, watts: tire[column]! })
+  );
+  if (points.length === 0) return null;
+
+  const exact = points.find((p) => p.speedKmh === speedKmh);
+  if (exact) return exact.watts;
+
+  const lower = [...points].reverse().find((p) => p.speedKmh < speedKmh);
+  const upper = points.find((p) => p.speedKmh > speedKmh);
+  if (lower && upper) {
+    const ratio = (speedKmh - lower.speedKmh) / (upper.speedKmh - lower.speedKmh);
+    return lower.watts + (upper.watts - lower.watts) * ratio;
+  }
+  const nearest = (lower ?? upper)!;
+  return (nearest.watts * speedKmh) / nearest.speedKmh;
+}
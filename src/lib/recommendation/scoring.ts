@@ -0,0 +1,158 @@
+import type {
+  MetricKey,
+  RecommendationPreferences,
+  ScoreBreakdown,
+  Tire,
+  TireWithScore,
+} from "./types";
+import { resolveWeights } from "./weights";
+import {
+  RIDING_SPEED_KMH,
+  RR_COLUMN_SPEEDS,
+  resolveRollingResistance,
+} from "./rolling-resistance";
+import {
+  normalizeMetric,
+  percentileRank,
+  ratioToBest,
+  type MetricDistribution,
+  type NormalizationMethod,
+} from "./normalization";
+import {
+  CONSTRUCTION_PENALTY,
+  constructionFit,
+  parseConstruction,
+} from "./construction";
+import { priceOf, priceStatus, valueScore } from "./pricing";
+import {
+  WIDE_MOUNT_WARNING_MM,
+  adjustRollingResistance,
+  mountedWidth,
+  ridingPressureBar,
+} from "./pressure";
+import { clearanceFit } from "./clearance";
+
+/** 总分放大到 0–100 便于阅读 */
+const SCORE_SCALE = 100;
+
+/** 各指标是否越大越好 */
+const HIGHER_IS_BETTER: Record<MetricKey, boolean> = {
+  wg: true,
+  rr: false,
+  price: false,
+  durability: true,
+};
+
+const METRIC_KEYS = Object.keys(HIGHER_IS_BETTER) as MetricKey[];
+
+/** 性能分只看表现，价格单独作为分母 */
+const PERFORMANCE_KEYS = METRIC_KEYS.filter((key) => key !== "price");
+
+/** 缺少湿地数据或任何一档滚阻数据的轮胎无法参与评分 */
+export function isScorable(tire: Tire): boolean {
+  return (
+    tire.wet_center != null &&
+    tire.wet_edge != null &&
+    RR_COLUMN_SPEEDS.some(({ column }) => tire[column] != null)
+  );
+}
+
+/** 耐磨数据暂未入库；tires 表增加 durability 列后会自动参与评分 */
+export function durabilityOf(tire: Tire): number | null {
+  const value = (tire as Tire & { durability?: number | null }).durability;
+  return typeof value === "number" ? value : null;
+}
+
+/**
+ * 取评分用的原始指标：湿地抓地取中心/边缘较小值，滚阻按骑行速度取值。
+ * 宽胎在实际骑行中胎压更低，滚阻按骑手条件估算的胎压换算，而不是直接比较测试胎压下的数值。
+ */
+export function resolveMetrics(tire: Tire, preferences: RecommendationPreferences) {
+  const rrSpeedKmh = RIDING_SPEED_KMH[preferences.speedPref];
+  const testedRr = resolveRollingResistance(tire, rrSpeedKmh)!;
+  const pressureBar = ridingPressureBar(tire, preferences);
+  return {
+    wg: Math.min(tire.wet_center!, tire.wet_edge!),
+    rr: pressureBar == null ? testedRr : adjustRollingResistance(testedRr, pressureBar),
+    rrSpeedKmh,
+    pressureBar,
+    price: priceOf(tire),
+    durability: durabilityOf(tire),
+  };
+}
+
+export function scoreTire(
+  tire: Tire,
+  preferences: RecommendationPreferences,
+  distribution: MetricDistribution,
+  method: NormalizationMethod = "minmax"
+): TireWithScore {
+  const { rrSpeedKmh, pressureBar, ...values } = resolveMetrics(tire, preferences);
+  const weights = resolveWeights(preferences);
+  const totalWeight = METRIC_KEYS.reduce((sum, key) => sum + weights[key], 0);
+
+  // 缺少数据的指标贡献为 0，而不是把权重让给其他指标
+  const metrics = {} as ScoreBreakdown["metrics"];
+  METRIC_KEYS.forEach((key) => {
+    const value = values[key];
+    const norm =
+      value == null
+        ? null
+        : normalizeMetric(value, distribution[key], HIGHER_IS_BETTER[key], method);
+    const weight = weights[key] / totalWeight;
+    metrics[key] = { norm, weight, contribution: (norm ?? 0) * weight * SCORE_SCALE };
+  });
+
+  const construction = parseConstruction(tire);
+  const fit = constructionFit(construction, preferences.setupPref);
+  const constructionPenalty = fit === "partial" ? CONSTRUCTION_PENALTY : 0;
+  const mountedWidthMm = mountedWidth(tire, preferences.rimWidthMm);
+  const score =
+    METRIC_KEYS.reduce((sum, key) => sum + metrics[key].contribution, 0) - constructionPenalty;
+
+  // 性价比用的性能分：不含价格，各指标按与同组最好值的比例计，0 分即真实的 0
+  const performanceWeight = PERFORMANCE_KEYS.reduce((sum, key) => sum + weights[key], 0);
+  const performanceRatio =
+    performanceWeight > 0
+      ? PERFORMANCE_KEYS.reduce((sum, key) => {
+          const value = values[key];
+          const ratio =
+            value == null ? 0 : ratioToBest(value, distribution[key], HIGHER_IS_BETTER[key]);
+          return sum + ratio * weights[key];
+        }, 0) / performanceWeight
+      : 1;
+  const performance = Math.max(0, performanceRatio * SCORE_SCALE - constructionPenalty);
+
+  return {
+    ...tire,
+    score,
+    performance,
+    wg: values.wg,
+    rr: values.rr,
+    rrSpeedKmh,
+    mountedWidthMm,
+    pressureBar,
+    widthWarning:
+      mountedWidthMm != null &&
+      tire.width_spec_mm != null &&
+      mountedWidthMm - tire.width_spec_mm > WIDE_MOUNT_WARNING_MM,
+    clearanceFit: clearanceFit(mountedWidthMm, preferences.frameClearanceMm),
+    wgPercentile: percentileRank(values.wg, distribution.wg, true),
+    rrPercentile: percentileRank(values.rr, distribution.rr, false),
+    widthClass: distribution.widthClass,
+    construction,
+    constructionFit: fit,
+    priceStatus: priceStatus(tire),
+    valueScore: valueScore(performance, tire),
+    breakdown: { metrics, constructionPenalty },
+  };
+}
+
+export function byScoreDesc(a: TireWithScore, b: TireWithScore): number {
+  return b.score - a.score;
+}
+
+/** 性价比降序，同分时按综合得分 */
+export function byValueDesc(a: TireWithScore, b: TireWithScore): number {
+  return (b.valueScore ?? 0) - (a.valueScore ?? 0) || byScoreDesc(a, b);
+}
@@ -0,0 +1,46 @@
+import type { RecommendationPreferences, Tire, TireWithScore } from "./types";
+import { rankTires } from "./ranking";
+
+/** 计算相似度时使用的中性偏好 */
+export const DEFAULT_PREFERENCES: RecommendationPreferences = {
+  wetPref: "normal",
+  widthPref: "28",
+  speedPref: "training",
+  setupPref: "any",
+  budget: null,
+  sortMode: "score",
+  systemWeightKg: null,
+  rimWidthMm: null,
+  pressureStyle: "balanced",
+  frameClearanceMm: null,
+};
+
+/** 胎宽相差超过该值（mm）不算相似 */
+const MAX_WIDTH_GAP_MM = 2;
+
+/**
+ * 找出与目标轮胎表现最接近的轮胎：在中性偏好下评分，
+ * 以归一化后的湿地抓地与滚阻的欧氏距离排序；已停产的轮胎不作为推荐。
+ */
+export function findSimilarTires(target: Tire, tires: Tire[], limit = 4): TireWithScore[] {
+  const scored = rankTires(tires, DEFAULT_PREFERENCES);
+  const self = scored.find((t) => t.id === target.id);
+  if (!self) return [];
+
+  const distance = (t: TireWithScore) =>
+    Math.hypot(
+      (t.breakdown.metrics.wg.norm ?? 0) - (self.breakdown.metrics.wg.norm ?? 0),
+      (t.breakdown.metrics.rr.norm ?? 0) - (self.breakdown.metrics.rr.norm ?? 0)
+    );
+
+  return scored
+    .filter((t) => t.id !== self.id && !t.retired)
+    .filter(
+      (t) =>
+        self.width_spec_mm == null ||
+        t.width_spec_mm == null ||
+        Math.abs(t.width_spec_mm - self.width_spec_mm) <= MAX_WIDTH_GAP_MM
+    )
+    .sort((a, b) => distance(a) - distance(b))
+    .slice(0, limit);
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONFIDENCE, applySources, combineTestResults } from ".";
+import { makeResult, makeSource, makeTire } from "./__fixtures__/tires";
+
+const tire = makeTire({ id: "t", wet_center: 70, wet_edge: 70, rr_med_w: 10, source_site: "Row" });
+
+const lab = makeSource({ id: "lab", name: "Lab", confidence: 0.9 });
+const blog = makeSource({ id: "blog", name: "Blog", confidence: 0.3 });
+
+const fromSource = (source: typeof lab, tested_on: string, wet_center: number, rr_med_w: number) =>
+  makeResult({ id: `${source.id}-${tested_on}`, source, source_id: source.id, tested_on, wet_center, rr_med_w });
+
+const results = [
+  fromSource(lab, "2022-01-01", 50, 20),
+  fromSource(lab, "2024-01-01", 80, 10),
+  fromSource(blog, "2025-01-01", 60, 14),
+];
+
+describe("combineTestResults", () => {
+  it("keeps the tire row in latest mode or without results", () => {
+    expect(combineTestResults(tire, results, "latest")).toBe(tire);
+    expect(combineTestResults(tire, [], "weighted")).toBe(tire);
+  });
+
+  it("takes the newest result of the most trusted source in confident mode", () => {
+    const combined = combineTestResults(tire, results, "confident");
+    expect(combined.wet_center).toBe(80);
+    expect(combined.rr_med_w).toBe(10);
+    expect(combined.source_site).toBe("Lab");
+  });
+
+  it("averages the newest result of each source by confidence in weighted mode", () => {
+    const combined = combineTestResults(tire, results, "weighted");
+    // (80 × 0.9 + 60 × 0.3) / 1.2，旧的 Lab 结果不参与
+    expect(combined.wet_center).toBeCloseTo(75);
+    expect(combined.rr_med_w).toBeCloseTo(11);
+    expect(combined.source_site).toBe("Lab / Blog");
+  });
+
+  it("skips metrics a source did not measure", () => {
+    const partial = [
+      makeResult({ id: "a", source: lab, source_id: "lab", wet_center: 80, rr_med_w: null }),
+      makeResult({ id: "b", source: blog, source_id: "blog", wet_center: 60, rr_med_w: 14 }),
+    ];
+    expect(combineTestResults(tire, partial, "weighted").rr_med_w).toBeCloseTo(14);
+  });
+
+  it("ignores sources with zero confidence", () => {
+    const untrusted = makeSource({ id: "x", name: "X", confidence: 0 });
+    const combined = combineTestResults(
+      tire,
+      [
+        makeResult({ id: "a", source: lab, source_id: "lab", wet_center: 80 }),
+        makeResult({ id: "b", source: untrusted, source_id: "x", wet_center: 20 }),
+      ],
+      "weighted"
+    );
+    expect(combined.wet_center).toBe(80);
+  });
+
+  it("treats results without a source as default confidence, grouped by site", () => {
+    const combined = combineTestResults(
+      tire,
+      [
+        makeResult({ id: "a", source_site: "Forum", wet_center: 40 }),
+        makeResult({ id: "b", source: lab, source_id: "lab", wet_center: 80 }),
+      ],
+      "weighted"
+    );
+    const expected = (40 * DEFAULT_CONFIDENCE + 80 * 0.9) / (DEFAULT_CONFIDENCE + 0.9);
+    expect(combined.wet_center).toBeCloseTo(expected);
+    expect(combined.source_site).toBe("Lab / Forum");
+  });
+});
+
+describe("applySources", () => {
+  it("combines each tire with its own results", () => {
+    const other = makeTire({ id: "other", wet_center: 55 });
+    const [first, second] = applySources([tire, other], results, "confident");
+    expect(first.wet_center).toBe(80);
+    expect(second).toBe(other);
+  });
+});
@@ -0,0 +1,77 @@
+import type { SourcedTestResult, Tire } from "./types";
+import { TEST_RESULT_METRICS, sortTestResults, withTestResult } from "./test-results";
+
+/**
+ * 多来源数据的取用方式：
+ * latest：沿用轮胎行上的数据（即最新一次结果）；
+ * confident：每款轮胎取可信度最高的来源；
+ * weighted：各来源的最新结果按可信度加权平均。
+ */
+export type SourceMode = "latest" | "confident" | "weighted";
+
+/** 未关联来源的结果使用的可信度 */
+export const DEFAULT_CONFIDENCE = 0.5;
+
+const NUMERIC_METRICS = TEST_RESULT_METRICS.filter(
+  (key) => key !== "tested_on" && key !== "source_site" && key !== "inner_tube"
+);
+
+export const confidenceOf = (result: SourcedTestResult) =>
+  result.source?.confidence ?? DEFAULT_CONFIDENCE;
+
+const sourceName = (result: SourcedTestResult) => result.source?.name ?? result.source_site;
+
+/** 每个来源只保留最新一次结果，按可信度降序（同可信度较新的在前） */
+function latestPerSource(results: SourcedTestResult[]): SourcedTestResult[] {
+  const seen = new Set<string>();
+  const latest = sortTestResults(results).filter((result) => {
+    const key = result.source_id ?? result.source_site ?? result.id;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return latest.sort((a, b) => confidenceOf(b) - confidenceOf(a));
+}
+
+/** 按取用方式把一款轮胎的多来源结果合成为一行；没有结果时原样返回 */
+export function combineTestResults(
+  tire: Tire,
+  results: SourcedTestResult[],
+  mode: SourceMode
+): Tire {
+  if (mode === "latest" || results.length === 0) return tire;
+
+  const candidates = latestPerSource(results);
+  const [best] = candidates;
+  if (mode === "confident" || candidates.length === 1) {
+    return { ...withTestResult(tire, best), source_site: sourceName(best) };
+  }
+
+  const combined: Tire = { ...withTestResult(tire, best) };
+  for (const key of NUMERIC_METRICS) {
+    const weighted = candidates
+      .map((r) => ({ value: r[key], weight: confidenceOf(r) }))
+      .filter((v): v is { value: number; weight: number } => v.value != null && v.weight > 0);
+    const total = weighted.reduce((sum, v) => sum + v.weight, 0);
+    combined[key] = total > 0 ? weighted.reduce((sum, v) => sum + v.value * v.weight, 0) / total : null;
+  }
+  combined.source_site = candidates
+    .map(sourceName)
+    .filter((name): name is string => !!name)
+    .join(" / ");
+  return combined;
+}
+
+/** 对全部轮胎应用 combineTestResults */
+export function applySources(
+  tires: Tire[],
+  results: SourcedTestResult[],
+  mode: SourceMode
+): Tire[] {
+  if (mode === "latest") return tires;
+  const byTire = new Map<string, SourcedTestResult[]>();
+  for (const result of results) {
+    byTire.set(result.tire_id, [...(byTire.get(result.tire_id) ?? []), result]);
+  }
+  return tires.map((tire) => combineTestResults(tire, byTire.get(tire.id) ?? [], mode));
+}
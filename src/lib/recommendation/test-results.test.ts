@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { latestTestResult, sortTestResults, withTestResult } from ".";
+import { makeResult, tested } from "./__fixtures__/tires";
+
+describe("sortTestResults", () => {
+  it("orders newest first, undated last, and same-day results by entry time", () => {
+    const results = [
+      makeResult({ id: "undated", tested_on: null }),
+      makeResult({ id: "2023", tested_on: "2023-06-01" }),
+      makeResult({ id: "2025-early", tested_on: "2025-03-01", created_at: "2025-03-02T00:00:00Z" }),
+      makeResult({ id: "2025-fix", tested_on: "2025-03-01", created_at: "2025-04-01T00:00:00Z" }),
+    ];
+    expect(sortTestResults(results).map((r) => r.id)).toEqual([
+      "2025-fix",
+      "2025-early",
+      "2023",
+      "undated",
+    ]);
+  });
+
+  it("does not modify the input", () => {
+    const results = [
+      makeResult({ id: "a", tested_on: "2020-01-01" }),
+      makeResult({ id: "b", tested_on: "2024-01-01" }),
+    ];
+    sortTestResults(results);
+    expect(results.map((r) => r.id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("latestTestResult", () => {
+  it("picks the newest result, or null without results", () => {
+    const results = [
+      makeResult({ id: "old", tested_on: "2022-01-01" }),
+      makeResult({ id: "new", tested_on: "2024-01-01" }),
+      makeResult({ id: "undated" }),
+    ];
+    expect(latestTestResult(results)?.id).toBe("new");
+    expect(latestTestResult([])).toBeNull();
+  });
+});
+
+describe("withTestResult", () => {
+  it("replaces the metric columns and keeps the rest of the tire", () => {
+    const tire = { ...tested("gp", { wet: 80, rr: 10, price: 300 }), width_measured_mm: 28.4 };
+    const result = makeResult({
+      id: "r",
+      tested_on: "2021-05-01",
+      wet_center: 70,
+      wet_edge: 65,
+      rr_med_w: 12,
+      source_site: "Lab",
+    });
+    const next = withTestResult(tire, result);
+
+    expect(next).toMatchObject({
+      id: "gp",
+      price: 300,
+      tested_on: "2021-05-01",
+      wet_center: 70,
+      wet_edge: 65,
+      rr_med_w: 12,
+      rr_high_w: null,
+      width_measured_mm: null,
+      source_site: "Lab",
+    });
+    expect(tire.wet_center).toBe(80);
+  });
+});
@@ -0,0 +1,42 @@
+import type { TestResult, Tire } from "./types";
+
+/** 测试结果中会覆盖到轮胎行上的字段 */
+export const TEST_RESULT_METRICS = [
+  "tested_on",
+  "source_site",
+  "inner_tube",
+  "width_measured_mm",
+  "wet_center",
+  "wet_edge",
+  "wet_avg",
+  "wg_min_center_edge",
+  "rr_med_w",
+  "rr_high_w",
+  "rr_extra_high_w",
+  "rr_ultra_high_w",
+] as const satisfies readonly (keyof TestResult & keyof Tire)[];
+
+/** 新到旧排序：测试日期倒序，日期未知的排最后，同日按录入时间倒序（与数据库触发器一致） */
+export function sortTestResults<T extends TestResult>(results: T[]): T[] {
+  return [...results].sort((a, b) => {
+    if (a.tested_on !== b.tested_on) {
+      if (a.tested_on == null) return 1;
+      if (b.tested_on == null) return -1;
+      return b.tested_on.localeCompare(a.tested_on);
+    }
+    return (b.created_at ?? "").localeCompare(a.created_at ?? "");
+  });
+}
+
+export function latestTestResult<T extends TestResult>(results: T[]): T | null {
+  return sortTestResults(results)[0] ?? null;
+}
+
+/** 用指定的一次测试结果替换轮胎的指标，便于按历史数据评分或对比 */
+export function withTestResult(tire: Tire, result: TestResult): Tire {
+  const next = { ...tire };
+  for (const key of TEST_RESULT_METRICS) {
+    (next as Record<string, unknown>)[key] = result[key];
+  }
+  return next;
+}
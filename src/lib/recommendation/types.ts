@@ -0,0 +1,115 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { NormalizationMethod } from "./normalization";
+import type { ConstructionFit, TireConstruction } from "./construction";
+import type { PriceStatus } from "./pricing";
+import type { ClearanceFit } from "./clearance";
+
+export type Tire = Tables<"tires">;
+
+/** 一次带日期的测试结果；tires 行上的指标等于其最新一次结果 */
+export type TestResult = Tables<"tire_test_results">;
+
+export type TestSource = Tables<"test_sources">;
+
+/** 一次价格观测；tires.price 等于最新一次人民币价格 */
+export type PriceObservation = Tables<"tire_prices">;
+
+/** 带来源信息的测试结果（select("*, source:test_sources(*)")） */
+export interface SourcedTestResult extends TestResult {
+  source: TestSource | null;
+}
+
+export type WetPreference = "very" | "normal" | "not";
+export type WidthPreference = "28" | "wider";
+export type SpeedPreference = "recreational" | "training" | "racing" | "time-trial";
+export type SetupPreference =
+  | "any"
+  | "tubeless"
+  | "clincher-butyl"
+  | "clincher-light"
+  | "tubular";
+/** 胎压习惯：firm 偏高，balanced 按体重推荐，supple 偏低 */
+export type PressureStyle = "firm" | "balanced" | "supple";
+/** score：按综合得分排序；value：按每百元得分（性价比）排序 */
+export type SortMode = "score" | "value";
+
+/** 参与评分的指标：湿地抓地、滚阻、价格、耐磨 */
+export type MetricKey = "wg" | "rr" | "price" | "durability";
+
+/** 各指标的相对权重，无需加总为 1，评分时会归一 */
+export type ScoreWeights = Record<MetricKey, number>;
+
+/** 问卷答案，决定权重与胎宽优先级 */
+export interface RecommendationPreferences {
+  wetPref: WetPreference;
+  widthPref: WidthPreference;
+  speedPref: SpeedPreference;
+  setupPref: SetupPreference;
+  /** 单条轮胎的最高价格（¥），null 表示不限 */
+  budget: number | null;
+  sortMode: SortMode;
+  /** 骑手 + 整车重量（kg），null 表示未填写，按默认重量估算胎压 */
+  systemWeightKg: number | null;
+  /** 轮圈内宽（mm），null 表示按测试轮圈计算 */
+  rimWidthMm: number | null;
+  pressureStyle: PressureStyle;
+  /** 车架允许的最大胎宽（mm），null 表示不检查 */
+  frameClearanceMm: number | null;
+  /** 高级设置中的自定义权重，未设置时使用 Q1 对应的预设 */
+  weights?: ScoreWeights;
+}
+
+export interface RecommendOptions {
+  /** 返回的推荐数量，默认 3 */
+  limit?: number;
+  /** 指标归一化方式，默认 min-max */
+  normalization?: NormalizationMethod;
+}
+
+export interface MetricContribution {
+  /** 归一化值（0–1，1 为同规格最好），缺少数据时为 null */
+  norm: number | null;
+  /** 归一后的权重（各指标合计为 1） */
+  weight: number;
+  /** 对总分（0–100）的贡献 */
+  contribution: number;
+}
+
+/** 每一项指标对总分的贡献，便于展示与调参 */
+export interface ScoreBreakdown {
+  metrics: Record<MetricKey, MetricContribution>;
+  /** 安装方式不完全匹配时的扣分 */
+  constructionPenalty: number;
+}
+
+export interface TireWithScore extends Tire {
+  score: number;
+  /** 性能分（0–100）：不含价格，各指标相对同组最好值的比例加权，用于计算性价比 */
+  performance: number;
+  /** 湿地抓地：取 wet_center / wet_edge 的较小值 */
+  wg: number;
+  /** 滚阻（W），按骑行速度从各速度档位取值或插值，并换算到骑手的胎压 */
+  rr: number;
+  /** 滚阻对应的目标速度（km/h） */
+  rrSpeedKmh: number;
+  /** 装在骑手轮圈上的胎宽估算（mm），胎宽未知时为 null */
+  mountedWidthMm: number | null;
+  /** 估算的后轮胎压（bar），胎宽未知时为 null */
+  pressureBar: number | null;
+  /** 装上后明显宽于标称，需确认车架间隙 */
+  widthWarning: boolean;
+  /** 与骑手车架间隙的比较，exceeds 的轮胎不参与推荐 */
+  clearanceFit: ClearanceFit;
+  /** 湿地抓地优于同规格多少比例的已测轮胎（0–100） */
+  wgPercentile: number;
+  /** 滚阻低于同规格多少比例的已测轮胎（0–100） */
+  rrPercentile: number;
+  /** 百分位比较所用的胎宽规格，null 表示与全部已测轮胎比较 */
+  widthClass: number | null;
+  construction: TireConstruction;
+  constructionFit: ConstructionFit;
+  priceStatus: PriceStatus;
+  /** 每 ¥100 对应的性能分，价格未知时为 null */
+  valueScore: number | null;
+  breakdown: ScoreBreakdown;
+}
@@ -0,0 +1,26 @@
+import type {
+  RecommendationPreferences,
+  ScoreWeights,
+  WetPreference,
+  WidthPreference,
+} from "./types";
+
+/** Q1 湿地偏好对应的预设权重（价格与耐磨默认不参与） */
+export const WEIGHT_CONFIG: Record<WetPreference, ScoreWeights> = {
+  very: { wg: 0.8, rr: 0.2, price: 0, durability: 0 },
+  normal: { wg: 0.6, rr: 0.4, price: 0, durability: 0 },
+  not: { wg: 0.35, rr: 0.65, price: 0, durability: 0 },
+};
+
+/** 取本次评分使用的权重：自定义权重优先，全为 0 时退回预设 */
+export function resolveWeights(preferences: RecommendationPreferences): ScoreWeights {
+  const custom = preferences.weights;
+  if (custom && Object.values(custom).some((w) => w > 0)) return custom;
+  return WEIGHT_CONFIG[preferences.wetPref];
+}
+
+/** Q2 胎宽偏好对应的优先规格（mm） */
+export const WIDTH_GROUPS: Record<WidthPreference, number[]> = {
+  "28": [28],
+  wider: [30, 32],
+};
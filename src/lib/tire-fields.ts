@@ -0,0 +1,65 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+type Tire = Tables<"tires">;
+
+export type TireFieldKey = Exclude<keyof Tire, "id">;
+
+export interface TireField {
+  key: TireFieldKey;
+  label: string;
+  unit?: string;
+  /** 数值越大 / 越小越好；无方向的字段不参与胜出判断 */
+  better?: "higher" | "lower";
+}
+
+/** tires 表各列的展示名称与比较方向，供对比页、详情页共用 */
+export const TIRE_FIELDS: TireField[] = [
+  { key: "brand", label: "品牌" },
+  { key: "model", label: "型号" },
+  { key: "year", label: "年份" },
+  { key: "tire_type", label: "结构" },
+  { key: "inner_tube", label: "测试内胎" },
+  { key: "width_spec_mm", label: "标称胎宽", unit: "mm" },
+  { key: "width_measured_mm", label: "实测胎宽", unit: "mm" },
+  { key: "wet_center", label: "湿地抓地（中心）", better: "higher" },
+  { key: "wet_edge", label: "湿地抓地（边缘）", better: "higher" },
+  { key: "wet_avg", label: "湿地抓地（平均）", better: "higher" },
+  { key: "wg_min_center_edge", label: "湿地抓地（较小值）", better: "higher" },
+  { key: "rr_med_w", label: "滚阻 25km/h", unit: "W", better: "lower" },
+  { key: "rr_high_w", label: "滚阻 30km/h", unit: "W", better: "lower" },
+  { key: "rr_extra_high_w", label: "滚阻 40km/h", unit: "W", better: "lower" },
+  { key: "rr_ultra_high_w", label: "滚阻 45km/h", unit: "W", better: "lower" },
+  { key: "rating", label: "评分", better: "higher" },
+  { key: "price", label: "价格", unit: "¥", better: "lower" },
+  { key: "price_reference", label: "价格参考" },
+  { key: "price_updated_on", label: "价格更新于" },
+  { key: "source_site", label: "数据来源" },
+  { key: "tested_on", label: "测试日期" },
+];
+
+/** 列名对应的展示名称（带单位）；未登记的列原样返回 */
+export function tireFieldLabel(key: string): string {
+  const field = TIRE_FIELDS.find((f) => f.key === key);
+  if (!field) return key;
+  return field.unit ? `${field.label}（${field.unit}）` : field.label;
+}
+
+export function formatTireField(tire: Tire, field: TireField): string {
+  const value = tire[field.key];
+  if (value == null || value === "") return "—";
+  if (field.unit === "¥") return `¥${value}`;
+  return field.unit ? `${value}${field.unit}` : String(value);
+}
+
+/** 返回该字段上表现最好的轮胎 id（并列全部返回）；少于两条有效数据时为空 */
+export function fieldWinners(tires: Tire[], field: TireField): string[] {
+  if (!field.better) return [];
+  const values = tires
+    .map((t) => ({ id: t.id, value: t[field.key] }))
+    .filter((v): v is { id: string; value: number } => typeof v.value === "number");
+  if (values.length < 2) return [];
+
+  const pick = field.better === "higher" ? Math.max : Math.min;
+  const best = pick(...values.map((v) => v.value));
+  return values.filter((v) => v.value === best).map((v) => v.id);
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { Tire } from "@/lib/recommendation";
+import { makeTire, tested } from "@/lib/recommendation/__fixtures__/tires";
+import { validateTires, type QualityRule } from "./tire-quality";
+
+/** 所有指标齐全、派生字段一致的轮胎 */
+const complete = (id: string, overrides: Partial<Tire> = {}, rr = 10) => ({
+  ...tested(id, { wet: 70, rr }),
+  wet_avg: 70,
+  wg_min_center_edge: 70,
+  model: `Model ${id}`,
+  ...overrides,
+});
+
+const rulesOf = (tires: Tire[], id: string) =>
+  validateTires(tires)
+    .filter((issue) => issue.tireId === id)
+    .map((issue) => issue.rule);
+
+const only = (tire: Tire): QualityRule[] => rulesOf([tire], tire.id);
+
+describe("validateTires", () => {
+  it("reports nothing for a complete tire", () => {
+    expect(validateTires([complete("a")])).toEqual([]);
+  });
+
+  it("flags tires that cannot be scored as errors", () => {
+    const [issue] = validateTires([makeTire({ id: "a", wet_center: 70 })]);
+    expect(issue).toMatchObject({ tireId: "a", rule: "unscorable", severity: "error" });
+    expect(issue.message).toContain("推荐时会被忽略");
+  });
+
+  it("warns about missing metrics on scorable tires", () => {
+    const [issue] = validateTires([complete("a", { rr_ultra_high_w: null, wet_avg: null })]);
+    expect(issue).toMatchObject({ rule: "missing_metrics", severity: "warning" });
+    expect(issue.message.startsWith("缺少 ")).toBe(true);
+    expect(issue.message.split("、")).toHaveLength(2);
+  });
+
+  it("checks the stored minimum against the center and edge values", () => {
+    expect(only(complete("a", { wet_edge: 66, wg_min_center_edge: 66.4, wet_avg: 68 }))).toEqual([]);
+    expect(only(complete("b", { wet_edge: 66, wg_min_center_edge: 70, wet_avg: 68 }))).toEqual([
+      "wg_min_mismatch",
+    ]);
+  });
+
+  it("checks the stored average against the center and edge values", () => {
+    expect(only(complete("a", { wet_edge: 66, wg_min_center_edge: 66, wet_avg: 68.5 }))).toEqual([]);
+    const [issue] = validateTires([complete("b", { wet_edge: 66, wg_min_center_edge: 66, wet_avg: 70 })]);
+    expect(issue).toMatchObject({ rule: "wet_avg_mismatch", severity: "error" });
+    expect(issue.message).toContain("68.0");
+  });
+
+  it("warns when the measured width is more than 3mm from the nominal one", () => {
+    expect(only(complete("a", { width_measured_mm: 31 }))).toEqual([]);
+    expect(only(complete("b", { width_measured_mm: 31.5 }))).toEqual(["width_deviation"]);
+    expect(only(complete("c", { width_measured_mm: 24.5 }))).toEqual(["width_deviation"]);
+  });
+
+  it("flags every row with the same brand, model and width, ignoring case and spaces", () => {
+    const tires = [
+      complete("a", { model: "GP5000" }),
+      complete("b", { model: " gp5000 " }),
+      complete("c", { model: "GP5000", width_spec_mm: 30 }),
+    ];
+    expect(rulesOf(tires, "a")).toEqual(["duplicate"]);
+    expect(rulesOf(tires, "b")).toEqual(["duplicate"]);
+    expect(rulesOf(tires, "c")).toEqual([]);
+  });
+
+  it("mentions a different year on duplicates", () => {
+    const tires = [complete("a", { model: "X" }), complete("b", { model: "X", year: 2025 })];
+    expect(validateTires(tires)[0].message).toContain("年份不同");
+  });
+
+  it("flags rolling resistance outliers within the same nominal width", () => {
+    const tires = [10, 10.5, 11, 11.5, 20].map((rr, i) => complete(`t${i}`, {}, rr));
+    const issues = validateTires(tires).filter((issue) => issue.rule === "rr_outlier");
+    // 四档速度的滚阻都按同一增量递增，每一档都是异常值
+    expect(issues.map((issue) => issue.tireId)).toEqual(["t4", "t4", "t4", "t4"]);
+    expect(issues[0].severity).toBe("warning");
+  });
+
+  it("does not look for outliers in small or mixed-width groups", () => {
+    const small = [10, 10.5, 20].map((rr, i) => complete(`s${i}`, {}, rr));
+    expect(validateTires(small)).toEqual([]);
+    const mixed = [10, 10.5, 11, 20].map((rr, i) => complete(`m${i}`, { width_spec_mm: 25 + i }, rr));
+    expect(validateTires(mixed)).toEqual([]);
+  });
+
+  it("returns the issues in the order of the tires", () => {
+    const tires = [
+      complete("a", { width_measured_mm: 35 }),
+      complete("b", { model: "Dup" }),
+      complete("c", { model: "Dup", wet_avg: 60 }),
+    ];
+    expect(validateTires(tires).map((issue) => issue.tireId)).toEqual(["a", "b", "c", "c"]);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * tires 表的数据质量检查：找出不参与推荐的行与明显的录入错误。
+ * 只读不改，结果用于管理后台的数据质量报告。
+ */
+import { RR_COLUMN_SPEEDS, isScorable, type Tire } from "@/lib/recommendation";
+import { tireFieldLabel } from "@/lib/tire-fields";
+
+export type QualityRule =
+  | "unscorable"
+  | "missing_metrics"
+  | "wg_min_mismatch"
+  | "wet_avg_mismatch"
+  | "width_deviation"
+  | "duplicate"
+  | "rr_outlier";
+
+export type QualitySeverity = "error" | "warning";
+
+export interface QualityIssue {
+  tireId: string;
+  rule: QualityRule;
+  severity: QualitySeverity;
+  message: string;
+}
+
+export const QUALITY_RULES: Record<QualityRule, { label: string; severity: QualitySeverity }> = {
+  unscorable: { label: "不参与推荐", severity: "error" },
+  missing_metrics: { label: "指标缺失", severity: "warning" },
+  wg_min_mismatch: { label: "湿地较小值不一致", severity: "error" },
+  wet_avg_mismatch: { label: "湿地平均值不一致", severity: "error" },
+  width_deviation: { label: "实测胎宽偏差大", severity: "warning" },
+  duplicate: { label: "重复记录", severity: "error" },
+  rr_outlier: { label: "滚阻异常值", severity: "warning" },
+};
+
+/** 派生字段允许的舍入误差 */
+const DERIVED_TOLERANCE = 0.5;
+
+/** 实测与标称胎宽相差超过该值（mm）视为可疑 */
+const MAX_WIDTH_DEVIATION_MM = 3;
+
+/** 滚阻异常值判定：超出四分位距的倍数（Tukey fences） */
+const OUTLIER_IQR_FACTOR = 1.5;
+
+/** 样本少于该数量时不判定异常值 */
+const MIN_OUTLIER_SAMPLE = 4;
+
+const METRIC_COLUMNS = [
+  "wet_center",
+  "wet_edge",
+  "wet_avg",
+  "wg_min_center_edge",
+  ...RR_COLUMN_SPEEDS.map(({ column }) => column),
+] as const;
+
+const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+function checkTire(tire: Tire): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  const add = (rule: QualityRule, message: string) =>
+    issues.push({ tireId: tire.id, rule, severity: QUALITY_RULES[rule].severity, message });
+
+  const missing = METRIC_COLUMNS.filter((column) => tire[column] == null).map(tireFieldLabel);
+  if (!isScorable(tire)) {
+    add("unscorable", `缺少 ${missing.join("、")}，推荐时会被忽略`);
+  } else if (missing.length) {
+    add("missing_metrics", `缺少 ${missing.join("、")}`);
+  }
+
+  const { wet_center: center, wet_edge: edge } = tire;
+  if (center != null && edge != null) {
+    const min = Math.min(center, edge);
+    if (tire.wg_min_center_edge != null && Math.abs(tire.wg_min_center_edge - min) > DERIVED_TOLERANCE) {
+      add("wg_min_mismatch", `记录为 ${tire.wg_min_center_edge}，中心 / 边缘较小值应为 ${min}`);
+    }
+    const avg = (center + edge) / 2;
+    if (tire.wet_avg != null && Math.abs(tire.wet_avg - avg) > DERIVED_TOLERANCE) {
+      add("wet_avg_mismatch", `记录为 ${tire.wet_avg}，中心 / 边缘平均值应为 ${avg.toFixed(1)}`);
+    }
+  }
+
+  if (tire.width_measured_mm != null && tire.width_spec_mm != null) {
+    const delta = tire.width_measured_mm - tire.width_spec_mm;
+    if (Math.abs(delta) > MAX_WIDTH_DEVIATION_MM) {
+      add("width_deviation", `标称 ${tire.width_spec_mm}mm，实测 ${tire.width_measured_mm}mm`);
+    }
+  }
+
+  return issues;
+}
+
+function checkDuplicates(tires: Tire[]): QualityIssue[] {
+  const groups = new Map<string, Tire[]>();
+  for (const tire of tires) {
+    const key = [tire.brand, tire.model, tire.width_spec_mm]
+      .map((v) => String(v ?? "").trim().toLowerCase())
+      .join("|");
+    groups.set(key, [...(groups.get(key) ?? []), tire]);
+  }
+
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .flatMap((group) =>
+      group.map((tire) => ({
+        tireId: tire.id,
+        rule: "duplicate" as const,
+        severity: QUALITY_RULES.duplicate.severity,
+        message: `品牌 / 型号 / 胎宽相同的记录共 ${group.length} 条${
+          group.some((t) => t.year !== tire.year) ? "（年份不同，确认是否为不同批次）" : ""
+        }`,
+      }))
+    );
+}
+
+/** 每个滚阻列在同一标称胎宽内用四分位距判定异常值 */
+function checkRollingResistance(tires: Tire[]): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  const byWidth = new Map<number | null, Tire[]>();
+  for (const tire of tires) {
+    byWidth.set(tire.width_spec_mm, [...(byWidth.get(tire.width_spec_mm) ?? []), tire]);
+  }
+
+  for (const group of byWidth.values()) {
+    for (const { column, speedKmh } of RR_COLUMN_SPEEDS) {
+      const values = group
+        .map((t) => t[column])
+        .filter((v): v is number => v != null)
+        .sort((a, b) => a - b);
+      if (values.length < MIN_OUTLIER_SAMPLE) continue;
+
+      const q1 = quantile(values, 0.25);
+      const q3 = quantile(values, 0.75);
+      const fence = (q3 - q1) * OUTLIER_IQR_FACTOR;
+      for (const tire of group) {
+        const value = tire[column];
+        if (value != null && (value < q1 - fence || value > q3 + fence)) {
+          issues.push({
+            tireId: tire.id,
+            rule: "rr_outlier",
+            severity: QUALITY_RULES.rr_outlier.severity,
+            message: `${speedKmh}km/h 滚阻 ${value}W，同胎宽常见范围 ${(q1 - fence).toFixed(1)}–${(q3 + fence).toFixed(1)}W`,
+          });
+        }
+      }
+    }
+  }
+  return issues;
+}
+
+/** 对全部轮胎运行所有检查；返回的问题按轮胎原顺序排列 */
+export function validateTires(tires: Tire[]): QualityIssue[] {
+  const issues = [
+    ...tires.flatMap(checkTire),
+    ...checkDuplicates(tires),
+    ...checkRollingResistance(tires),
+  ];
+  const order = new Map(tires.map((t, i) => [t.id, i]));
+  return issues.sort((a, b) => (order.get(a.tireId) ?? 0) - (order.get(b.tireId) ?? 0));
+}
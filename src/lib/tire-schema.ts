@@ -0,0 +1,81 @@
+/**
+ * tires 表写入数据的校验规则，管理后台的表单与批量导入共用。
+ * 数值范围取自现有测试数据的合理区间，超出范围多半是录入错误。
+ */
+import { z } from "zod";
+import type { Tables } from "@/integrations/supabase/types";
+
+const optionalText = z.string().trim().max(200).nullable();
+
+const score = z.number().min(0, "应在 0–100 之间").max(100, "应在 0–100 之间").nullable();
+
+const watts = z.number().positive("应为正数").max(200, "数值过大").nullable();
+
+const widthMm = (message?: string) =>
+  z
+    .number(message ? { error: message } : undefined)
+    .min(20, "胎宽应在 20–60mm 之间")
+    .max(60, "胎宽应在 20–60mm 之间");
+
+export const tireWriteSchema = z.object({
+  brand: z.string().trim().min(1, "请填写品牌").max(100),
+  model: z.string().trim().min(1, "请填写型号").max(200),
+  year: z.number().int().min(2000).max(2100).nullable(),
+  family_id: z.uuid("请选择已有的系列").nullable(),
+  tire_type: optionalText,
+  inner_tube: optionalText,
+  width_spec_mm: widthMm("请填写标称胎宽").int("标称胎宽应为整数"),
+  width_measured_mm: widthMm().nullable(),
+  wet_center: score,
+  wet_edge: score,
+  wet_avg: score,
+  wg_min_center_edge: score,
+  rr_med_w: watts,
+  rr_high_w: watts,
+  rr_extra_high_w: watts,
+  rr_ultra_high_w: watts,
+  rating: z.number().min(0).max(100).nullable(),
+  price: z.number().nonnegative("价格不能为负").nullable(),
+  price_reference: optionalText,
+  source_site: optionalText,
+  // 留空表示沿用当前测试结果的日期（更正数据）；填写新日期表示一次新的测试
+  tested_on: z.iso.date("日期格式应为 YYYY-MM-DD").nullable(),
+  retired: z.boolean(),
+});
+
+export type TireWrite = z.infer<typeof tireWriteSchema>;
+
+/** 新建轮胎时的表单初始值 */
+export const EMPTY_TIRE: TireWrite = {
+  brand: "",
+  model: "",
+  year: null,
+  family_id: null,
+  tire_type: null,
+  inner_tube: null,
+  width_spec_mm: 28,
+  width_measured_mm: null,
+  wet_center: null,
+  wet_edge: null,
+  wet_avg: null,
+  wg_min_center_edge: null,
+  rr_med_w: null,
+  rr_high_w: null,
+  rr_extra_high_w: null,
+  rr_ultra_high_w: null,
+  rating: null,
+  price: null,
+  price_reference: null,
+  source_site: null,
+  tested_on: null,
+  retired: false,
+};
+
+/** 取出已有轮胎中可写的字段，空值按新建时的默认值补齐 */
+export function toTireWrite(tire: Tables<"tires">): TireWrite {
+  const values: Record<string, unknown> = {};
+  for (const key of Object.keys(EMPTY_TIRE) as (keyof TireWrite)[]) {
+    values[key] = tire[key] ?? EMPTY_TIRE[key];
+  }
+  return values as TireWrite;
+}
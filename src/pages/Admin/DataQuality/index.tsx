@@ -0,0 +1,122 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import SiteHeader from "@/components/layout/SiteHeader";
+import { useTires } from "@/hooks/use-tires";
+import { QUALITY_RULES, validateTires, type QualityRule } from "@/lib/tire-quality";
+
+const SEVERITY_STYLES = {
+  error: "bg-[#fee2e2] text-[#991b1b]",
+  warning: "bg-[#fef3c7] text-[#92400e]",
+};
+
+// 数据质量报告：/admin/data-quality（仅管理员）
+export default function AdminDataQuality() {
+  const { data: tires = [], isLoading, error } = useTires();
+  const [rule, setRule] = useState<QualityRule | null>(null);
+
+  const issues = useMemo(() => validateTires(tires), [tires]);
+  const tiresById = useMemo(() => new Map(tires.map((t) => [t.id, t])), [tires]);
+
+  const counts = useMemo(() => {
+    const result = Object.fromEntries(
+      Object.keys(QUALITY_RULES).map((key) => [key, 0])
+    ) as Record<QualityRule, number>;
+    for (const issue of issues) result[issue.rule] += 1;
+    return result;
+  }, [issues]);
+
+  const affected = new Set(issues.map((i) => i.tireId)).size;
+  const visible = rule ? issues.filter((i) => i.rule === rule) : issues;
+
+  return (
+    <div className="min-h-screen bg-[#f7f7f8]">
+      <SiteHeader />
+
+      <main className="container mx-auto px-4 py-12 max-w-[860px] space-y-6">
+        <div>
+          <h1 className="text-2xl font-extrabold text-foreground mb-2">数据质量</h1>
+          <p className="text-sm text-muted-foreground">
+            共 {tires.length} 条轮胎，{affected} 条存在问题，其中 {counts.unscorable} 条因缺少关键指标不参与推荐
+          </p>
+        </div>
+
+        <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+          <div className="p-6 space-y-4">
+            {isLoading || error ? (
+              <div className="p-12 text-center text-muted-foreground">
+                {isLoading ? <Loader2 className="mx-auto h-6 w-6 animate-spin" /> : "加载失败，请稍后重试"}
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {[null, ...(Object.keys(QUALITY_RULES) as QualityRule[])].map((key) => (
+                    <button
+                      key={key ?? "all"}
+                      onClick={() => setRule(key)}
+                      className={`px-3 py-1.5 rounded-lg text-xs font-semibold border transition-all ${
+                        rule === key
+                          ? "bg-primary text-primary-foreground border-primary"
+                          : "bg-white text-foreground border-[#e5e7eb] hover:border-primary/40"
+                      }`}
+                    >
+                      {key ? `${QUALITY_RULES[key].label} ${counts[key]}` : `全部 ${issues.length}`}
+                    </button>
+                  ))}
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>轮胎</TableHead>
+                      <TableHead>问题</TableHead>
+                      <TableHead>说明</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.map((issue, index) => {
+                      const tire = tiresById.get(issue.tireId);
+                      return (
+                        <TableRow key={`${issue.tireId}-${issue.rule}-${index}`}>
+                          <TableCell className="font-medium whitespace-nowrap">
+                            <Link to={`/tires/${issue.tireId}`} className="hover:text-primary">
+                              {tire?.brand} {tire?.model} {tire?.width_spec_mm ?? "?"}mm
+                            </Link>
+                          </TableCell>
+                          <TableCell>
+                            <span
+                              className={`inline-block px-2 py-0.5 text-xs font-bold rounded-full whitespace-nowrap ${SEVERITY_STYLES[issue.severity]}`}
+                            >
+                              {QUALITY_RULES[issue.rule].label}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{issue.message}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                    {visible.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={3} className="text-center text-muted-foreground">
+                          没有发现问题
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </div>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { HELPFULNESS_LABELS } from "@/lib/feedback";
+import type { HelpfulnessBucket } from "./aggregate";
+
+const countsConfig: ChartConfig = {
+  helpful: { label: HELPFULNESS_LABELS.helpful, color: "#16a34a" },
+  ok: { label: HELPFULNESS_LABELS.ok, color: "#f59e0b" },
+  not_helpful: { label: HELPFULNESS_LABELS.not_helpful, color: "#dc2626" },
+};
+
+const rateConfig: ChartConfig = {
+  helpfulRate: { label: "有帮助占比（%）", color: "#16a34a" },
+};
+
+const flatten = (buckets: HelpfulnessBucket[]) =>
+  buckets.map((b) => ({ key: b.key, total: b.total, helpfulRate: b.helpfulRate, ...b.counts }));
+
+// 按天堆叠的反馈数量
+export function DailyFeedbackChart({ buckets }: { buckets: HelpfulnessBucket[] }) {
+  return (
+    <ChartContainer config={countsConfig} className="h-[260px] w-full">
+      <BarChart data={flatten(buckets)} margin={{ left: 0, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="key" tickLine={false} axisLine={false} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend />
+        {(Object.keys(countsConfig) as (keyof typeof countsConfig)[]).map((key) => (
+          <Bar
+            key={key}
+            dataKey={key}
+            name={String(countsConfig[key].label)}
+            stackId="feedback"
+            fill={`var(--color-${key})`}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+// 某个维度（Q1 / Q2 答案）下的有帮助占比
+export function HelpfulRateChart({ buckets }: { buckets: HelpfulnessBucket[] }) {
+  return (
+    <ChartContainer config={rateConfig} className="h-[220px] w-full">
+      <BarChart data={flatten(buckets)} margin={{ left: 0, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="key" tickLine={false} axisLine={false} />
+        <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="helpfulRate" fill="var(--color-helpfulRate)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
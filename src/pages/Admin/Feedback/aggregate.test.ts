@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { Tables } from "@/integrations/supabase/types";
+import { byDay, byQ1, byTire, summarize } from "./aggregate";
+
+let nextId = 0;
+const row = (overrides: Partial<Tables<"feedback">> = {}): Tables<"feedback"> => ({
+  id: String(nextId++),
+  created_at: "2026-01-01T12:00:00Z",
+  helpfulness: "helpful",
+  q1_importance: null,
+  q2_width_pref: null,
+  top1: null,
+  top2: null,
+  top3: null,
+  ...overrides,
+});
+
+/** 本地时间的 ISO 时间戳，测试结果不受运行环境时区影响 */
+const local = (day: number, hour: number) => new Date(2026, 0, day, hour, 30).toISOString();
+
+describe("summarize", () => {
+  it("counts each answer and the helpful rate", () => {
+    const overall = summarize([
+      row(),
+      row(),
+      row({ helpfulness: "ok" }),
+      row({ helpfulness: "not_helpful" }),
+    ]);
+    expect(overall).toEqual({
+      key: "all",
+      total: 4,
+      counts: { helpful: 2, ok: 1, not_helpful: 1 },
+      helpfulRate: 50,
+    });
+  });
+
+  it("ignores unknown answers and handles no feedback", () => {
+    expect(summarize([row({ helpfulness: "maybe" })]).total).toBe(0);
+    expect(summarize([])).toMatchObject({ total: 0, helpfulRate: 0 });
+  });
+});
+
+describe("byDay", () => {
+  it("groups by the local day, sorted by date", () => {
+    const buckets = byDay([
+      row({ created_at: local(2, 0) }),
+      row({ created_at: local(1, 23) }),
+      row({ created_at: local(1, 1), helpfulness: "ok" }),
+      row({ created_at: null }),
+    ]);
+    expect(buckets.map((b) => [b.key, b.total])).toEqual([
+      ["2026-01-01", 2],
+      ["2026-01-02", 1],
+    ]);
+    expect(buckets[0].helpfulRate).toBe(50);
+  });
+});
+
+describe("byQ1 and byTire", () => {
+  it("skips rows without the grouping value", () => {
+    const buckets = byQ1([row({ q1_importance: "very" }), row()]);
+    expect(buckets.map((b) => b.key)).toEqual(["very"]);
+  });
+
+  it("counts a tire once for each position it was recommended in, most frequent first", () => {
+    const buckets = byTire([
+      row({ top1: "a", top2: "b" }),
+      row({ top1: "b", top2: "c", top3: "a", helpfulness: "not_helpful" }),
+      row({ top1: "b" }),
+    ]);
+    expect(buckets.map((b) => [b.key, b.total])).toEqual([
+      ["b", 3],
+      ["a", 2],
+      ["c", 1],
+    ]);
+    expect(buckets[1].counts).toEqual({ helpful: 1, ok: 0, not_helpful: 1 });
+  });
+});
@@ -0,0 +1,59 @@
+import { format } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { HELPFULNESS_VALUES, type Helpfulness } from "@/lib/feedback";
+
+type FeedbackRow = Tables<"feedback">;
+
+export interface HelpfulnessBucket {
+  key: string;
+  total: number;
+  counts: Record<Helpfulness, number>;
+  /** helpful 占比（0–100） */
+  helpfulRate: number;
+}
+
+const emptyCounts = () =>
+  Object.fromEntries(HELPFULNESS_VALUES.map((v) => [v, 0])) as Record<Helpfulness, number>;
+
+/** 按 keyOf 分组统计；keyOf 返回多个值时该行计入每个分组 */
+function groupBy(
+  rows: FeedbackRow[],
+  keyOf: (row: FeedbackRow) => (string | null)[]
+): HelpfulnessBucket[] {
+  const buckets = new Map<string, Record<Helpfulness, number>>();
+
+  rows.forEach((row) => {
+    if (!(HELPFULNESS_VALUES as readonly string[]).includes(row.helpfulness)) return;
+    keyOf(row)
+      .filter((key): key is string => !!key)
+      .forEach((key) => {
+        const counts = buckets.get(key) ?? emptyCounts();
+        counts[row.helpfulness as Helpfulness] += 1;
+        buckets.set(key, counts);
+      });
+  });
+
+  return Array.from(buckets, ([key, counts]) => {
+    const total = HELPFULNESS_VALUES.reduce((sum, v) => sum + counts[v], 0);
+    return { key, total, counts, helpfulRate: total ? (counts.helpful / total) * 100 : 0 };
+  });
+}
+
+/** 按天（浏览器本地日期）统计，按日期升序；created_at 为 UTC 时间戳，直接截取会把凌晨的反馈算到前一天 */
+export const byDay = (rows: FeedbackRow[]) =>
+  groupBy(rows, (row) => [
+    row.created_at ? format(new Date(row.created_at), "yyyy-MM-dd") : null,
+  ]).sort((a, b) => a.key.localeCompare(b.key));
+
+export const byQ1 = (rows: FeedbackRow[]) => groupBy(rows, (row) => [row.q1_importance]);
+
+export const byQ2 = (rows: FeedbackRow[]) => groupBy(rows, (row) => [row.q2_width_pref]);
+
+/** 按被推荐的轮胎统计（Top1–3 任一位置出现即计入），按出现次数降序 */
+export const byTire = (rows: FeedbackRow[]) =>
+  groupBy(rows, (row) => [row.top1, row.top2, row.top3]).sort((a, b) => b.total - a.total);
+
+export function summarize(rows: FeedbackRow[]) {
+  const [overall] = groupBy(rows, () => ["all"]);
+  return overall ?? { key: "all", total: 0, counts: emptyCounts(), helpfulRate: 0 };
+}
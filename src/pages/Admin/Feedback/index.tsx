@@ -0,0 +1,163 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import SiteHeader from "@/components/layout/SiteHeader";
+import { downloadCsv, toCsv } from "@/lib/csv";
+import { HELPFULNESS_LABELS, HELPFULNESS_VALUES } from "@/lib/feedback";
+import { byDay, byQ1, byQ2, byTire, summarize } from "./aggregate";
+import { DailyFeedbackChart, HelpfulRateChart } from "./FeedbackCharts";
+
+const TOP_TIRES = 20;
+
+/** PostgREST 单次最多返回 1000 行，超过时按页拉取，避免统计与导出少算 */
+const PAGE_SIZE = 1000;
+
+const formatRate = (rate: number) => `${rate.toFixed(0)}%`;
+
+// 反馈看板：/admin/feedback（仅管理员）
+export default function AdminFeedback() {
+  const { data: rows = [], isLoading, error } = useQuery({
+    queryKey: ["admin", "feedback"],
+    queryFn: async () => {
+      const rows: Tables<"feedback">[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("feedback")
+          .select("*")
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    },
+  });
+
+  const stats = useMemo(
+    () => ({
+      overall: summarize(rows),
+      daily: byDay(rows),
+      q1: byQ1(rows),
+      q2: byQ2(rows),
+      tires: byTire(rows).slice(0, TOP_TIRES),
+    }),
+    [rows]
+  );
+
+  const handleExport = () => {
+    const csv = toCsv(rows, [
+      "created_at",
+      "helpfulness",
+      "q1_importance",
+      "q2_width_pref",
+      "top1",
+      "top2",
+      "top3",
+    ]);
+    downloadCsv(`feedback-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+  };
+
+  const section = "shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white";
+
+  return (
+    <div className="min-h-screen bg-[#f7f7f8]">
+      <SiteHeader>
+        <Button
+          size="sm"
+          onClick={handleExport}
+          disabled={rows.length === 0}
+          className="font-semibold rounded-lg h-9 px-4"
+        >
+          <Download className="mr-1.5 h-4 w-4" />
+          导出 CSV
+        </Button>
+      </SiteHeader>
+
+      <main className="container mx-auto px-4 py-12 max-w-[860px] space-y-6">
+        <div>
+          <h1 className="text-2xl font-extrabold text-foreground mb-2">反馈看板</h1>
+          <p className="text-sm text-muted-foreground">
+            共 {stats.overall.total} 条反馈，有帮助占比 {formatRate(stats.overall.helpfulRate)}
+          </p>
+        </div>
+
+        {isLoading || error ? (
+          <Card className={section}>
+            <div className="p-12 text-center text-muted-foreground">
+              {isLoading ? <Loader2 className="mx-auto h-6 w-6 animate-spin" /> : "加载失败，请稍后重试"}
+            </div>
+          </Card>
+        ) : (
+          <>
+            <Card className={section}>
+              <div className="p-6 space-y-3">
+                <h2 className="text-base font-bold text-foreground">每日反馈</h2>
+                <DailyFeedbackChart buckets={stats.daily} />
+              </div>
+            </Card>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Card className={section}>
+                <div className="p-6 space-y-3">
+                  <h2 className="text-base font-bold text-foreground">按 Q1 湿地偏好</h2>
+                  <HelpfulRateChart buckets={stats.q1} />
+                </div>
+              </Card>
+              <Card className={section}>
+                <div className="p-6 space-y-3">
+                  <h2 className="text-base font-bold text-foreground">按 Q2 胎宽偏好</h2>
+                  <HelpfulRateChart buckets={stats.q2} />
+                </div>
+              </Card>
+            </div>
+
+            <Card className={section}>
+              <div className="p-6 space-y-3">
+                <h2 className="text-base font-bold text-foreground">按推荐轮胎</h2>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>轮胎</TableHead>
+                      <TableHead>出现次数</TableHead>
+                      {HELPFULNESS_VALUES.map((v) => (
+                        <TableHead key={v}>{HELPFULNESS_LABELS[v]}</TableHead>
+                      ))}
+                      <TableHead>有帮助占比</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stats.tires.map((bucket) => (
+                      <TableRow key={bucket.key}>
+                        <TableCell className="font-medium">{bucket.key}</TableCell>
+                        <TableCell className="tabular-nums">{bucket.total}</TableCell>
+                        {HELPFULNESS_VALUES.map((v) => (
+                          <TableCell key={v} className="tabular-nums">
+                            {bucket.counts[v]}
+                          </TableCell>
+                        ))}
+                        <TableCell className="tabular-nums">{formatRate(bucket.helpfulRate)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useMemo, useState, type ChangeEvent } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { Tables } from "@/integrations/supabase/types";
+import type { Tire } from "@/lib/recommendation";
+import {
+  IMPORT_COLUMNS,
+  columnLabel,
+  diffImport,
+  guessMapping,
+  parseImport,
+  type ColumnMapping,
+  type DiffStatus,
+  type ImportColumn,
+  type ImportSource,
+  type ImportWrite,
+} from "./import";
+
+const STATUS_STYLES: Record<DiffStatus, { label: string; className: string }> = {
+  new: { label: "新增", className: "bg-[#dbeafe] text-[#1e40af]" },
+  changed: { label: "变更", className: "bg-[#fef3c7] text-[#92400e]" },
+  unchanged: { label: "无变化", className: "bg-[#f3f4f6] text-[#374151]" },
+  invalid: { label: "无效", className: "bg-[#fee2e2] text-[#991b1b]" },
+};
+
+const IGNORE = "__ignore__";
+
+const formatValue = (value: unknown) => (value == null || value === "" ? "—" : String(value));
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** 现有轮胎（含已删除），用于匹配 */
+  tires: Tire[];
+  /** 系列列按名称或 id 匹配 */
+  families: Tables<"tire_families">[];
+  /** 写入需要新增或更新的行；返回是否成功，成功后关闭弹窗 */
+  onApply: (rows: ImportWrite[]) => Promise<boolean>;
+}
+
+// 批量导入：粘贴或上传 CSV / JSON → 映射列 → 预览差异 → 一次性写入
+export default function ImportDialog({
+  open,
+  onOpenChange,
+  tires,
+  families,
+  onApply,
+}: ImportDialogProps) {
+  const [text, setText] = useState("");
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  const diff = useMemo(
+    () => (source ? diffImport(source, mapping, tires, families) : []),
+    [source, mapping, tires, families]
+  );
+  const writes = diff.flatMap((row) => (row.write ? [row.write] : []));
+  const counts = diff.reduce(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { new: 0, changed: 0, unchanged: 0, invalid: 0 } as Record<DiffStatus, number>
+  );
+
+  const reset = () => {
+    setText("");
+    setSource(null);
+    setMapping({});
+    setParseError(null);
+  };
+
+  const handleParse = () => {
+    try {
+      const parsed = parseImport(text);
+      setSource(parsed);
+      setMapping(guessMapping(parsed.headers));
+      setParseError(null);
+    } catch (err) {
+      setSource(null);
+      setParseError(err instanceof Error ? err.message : "解析失败");
+    }
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setText(await file.text());
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      // 失败时保留粘贴的内容与列映射，便于修改后重试
+      if (await onApply(writes)) reset();
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>批量导入</DialogTitle>
+          <DialogDescription>
+            支持带表头的 CSV 或 JSON 数组，列名与 tires 表一致或使用中文字段名。品牌、型号、标称胎宽与年份都相同的行会更新已有轮胎。系列填写已有系列的名称；测试日期留空时沿用当前结果的日期。
+          </DialogDescription>
+        </DialogHeader>
+
+        {!source ? (
+          <div className="space-y-4">
+            <Input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} />
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="或直接粘贴内容"
+              className="min-h-[200px] font-mono text-xs"
+            />
+            {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+            <DialogFooter>
+              <Button onClick={handleParse} disabled={!text.trim()} className="font-semibold">
+                解析
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <h3 className="text-sm font-bold text-foreground">列映射</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {source.headers.map((header) => (
+                  <div key={header} className="flex items-center gap-2">
+                    <span className="w-1/2 truncate text-xs text-muted-foreground" title={header}>
+                      {header}
+                    </span>
+                    <Select
+                      value={mapping[header] ?? IGNORE}
+                      onValueChange={(value) =>
+                        setMapping({
+                          ...mapping,
+                          [header]: value === IGNORE ? null : (value as ImportColumn),
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-1/2 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE}>忽略</SelectItem>
+                        {IMPORT_COLUMNS.map((column) => (
+                          <SelectItem key={column} value={column}>
+                            {columnLabel(column)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(STATUS_STYLES) as DiffStatus[]).map((status) => (
+                <span
+                  key={status}
+                  className={`inline-block px-3 py-1 text-xs font-bold rounded-full ${STATUS_STYLES[status].className}`}
+                >
+                  {STATUS_STYLES[status].label} {counts[status]}
+                </span>
+              ))}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>轮胎</TableHead>
+                  <TableHead>状态</TableHead>
+                  <TableHead>详情</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff
+                  .filter((row) => row.status !== "unchanged")
+                  .map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="tabular-nums">{row.line}</TableCell>
+                      <TableCell className="font-medium whitespace-nowrap">{row.label || "—"}</TableCell>
+                      <TableCell>
+                        <span
+                          className={`inline-block px-2 py-0.5 text-xs font-bold rounded-full ${STATUS_STYLES[row.status].className}`}
+                        >
+                          {STATUS_STYLES[row.status].label}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {row.errors.map((error) => (
+                          <p key={error} className="text-destructive">
+                            {error}
+                          </p>
+                        ))}
+                        {row.changes.map((change) => (
+                          <p key={change.column}>
+                            {columnLabel(change.column)}：{formatValue(change.from)} → {formatValue(change.to)}
+                          </p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setSource(null)}>
+                返回修改
+              </Button>
+              <Button
+                onClick={handleApply}
+                disabled={applying || writes.length === 0}
+                className="font-semibold"
+              >
+                {applying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                导入 {writes.length} 条{counts.invalid > 0 && `（跳过 ${counts.invalid} 条无效）`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
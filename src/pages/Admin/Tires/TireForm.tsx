@@ -0,0 +1,237 @@
+import { useForm, type FieldPath } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Tables } from "@/integrations/supabase/types";
+import { tireFieldLabel } from "@/lib/tire-fields";
+import { EMPTY_TIRE, tireWriteSchema, toTireWrite, type TireWrite } from "@/lib/tire-schema";
+import type { Tire } from "@/lib/recommendation";
+
+type TextKey = "brand" | "model" | "tire_type" | "inner_tube" | "price_reference" | "source_site";
+
+type NumberKey = Exclude<FieldPath<TireWrite>, TextKey | "retired" | "family_id" | "tested_on">;
+
+const TEXT_FIELDS: TextKey[] = ["brand", "model", "tire_type", "inner_tube"];
+
+const NUMBER_FIELDS: NumberKey[] = [
+  "year",
+  "width_spec_mm",
+  "width_measured_mm",
+  "wet_center",
+  "wet_edge",
+  "wet_avg",
+  "wg_min_center_edge",
+  "rr_med_w",
+  "rr_high_w",
+  "rr_extra_high_w",
+  "rr_ultra_high_w",
+  "rating",
+  "price",
+];
+
+const SOURCE_FIELDS: TextKey[] = ["price_reference", "source_site"];
+
+/** Select 不允许空值，用该值表示不指定系列 */
+const NO_FAMILY = "none";
+
+/** 必填的文本字段清空时保留空字符串，交给校验提示 */
+const REQUIRED_TEXT: TextKey[] = ["brand", "model"];
+
+interface TireFormProps {
+  /** 编辑的轮胎；null 表示新建 */
+  tire: Tire | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** 可选的系列（同一产品线的各年款） */
+  families: Tables<"tire_families">[];
+  onSubmit: (values: TireWrite) => Promise<void>;
+}
+
+// 新建 / 编辑轮胎的表单弹窗
+export default function TireForm({ tire, open, onOpenChange, families, onSubmit }: TireFormProps) {
+  const form = useForm<TireWrite>({
+    resolver: zodResolver(tireWriteSchema),
+    values: tire ? toTireWrite(tire) : EMPTY_TIRE,
+  });
+
+  const renderText = (key: TextKey) => (
+    <FormField
+      key={key}
+      control={form.control}
+      name={key}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{tireFieldLabel(key)}</FormLabel>
+          <FormControl>
+            <Input
+              {...field}
+              value={field.value ?? ""}
+              onChange={(e) =>
+                field.onChange(
+                  e.target.value === "" && !REQUIRED_TEXT.includes(key) ? null : e.target.value
+                )
+              }
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderNumber = (key: NumberKey) => (
+    <FormField
+      key={key}
+      control={form.control}
+      name={key}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{tireFieldLabel(key)}</FormLabel>
+          <FormControl>
+            <Input
+              {...field}
+              type="number"
+              step="any"
+              inputMode="decimal"
+              value={field.value ?? ""}
+              onChange={(e) =>
+                field.onChange(e.target.value === "" ? null : Number(e.target.value))
+              }
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{tire ? `编辑 ${tire.brand} ${tire.model}` : "新增轮胎"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {TEXT_FIELDS.map(renderText)}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="family_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>系列</FormLabel>
+                    <Select
+                      value={field.value ?? NO_FAMILY}
+                      onValueChange={(value) => field.onChange(value === NO_FAMILY ? null : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_FAMILY}>
+                          {tire ? "不归入系列" : "按品牌 + 型号自动归入"}
+                        </SelectItem>
+                        {families.map((family) => (
+                          <SelectItem key={family.id} value={family.id}>
+                            {family.brand} {family.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>新年款改名时（如 GP5000 → GP5000 S TR）选择原系列</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="tested_on"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{tireFieldLabel("tested_on")}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="date"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : e.target.value)}
+                      />
+                    </FormControl>
+                    <FormDescription>复测时改为新的测试日期；日期不变则视为更正当前结果</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {NUMBER_FIELDS.map(renderNumber)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              修改测试日期、实测胎宽、湿地或滚阻数据会记为一条新的测试结果，修改价格会记为一条今天的价格记录，原数据保留在历史中
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {SOURCE_FIELDS.map(renderText)}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="retired"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border border-[#e5e7eb] p-4">
+                  <div className="space-y-1">
+                    <FormLabel>已停产</FormLabel>
+                    <FormDescription>停产的轮胎仍可通过链接查看，但不再出现在推荐中</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                取消
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting} className="font-semibold">
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                保存
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { makeTire } from "@/lib/recommendation/__fixtures__/tires";
+import { diffImport, guessMapping, parseImport } from "./import";
+
+const existing = [
+  makeTire({ id: "gp5000", brand: "Continental", model: "GP5000", width_spec_mm: 28, year: 2019, wet_center: 60 }),
+  makeTire({
+    id: "old",
+    brand: "Vittoria",
+    model: "Corsa",
+    width_spec_mm: 25,
+    year: 2018,
+    deleted_at: "2026-01-01T00:00:00Z",
+  }),
+];
+
+const families = [
+  {
+    id: "0b6f7c1e-3a52-4c8e-9f1d-2d6a1b9e4c10",
+    created_at: null,
+    brand: "Continental",
+    name: "GP5000",
+  },
+];
+
+const diffOf = (text: string) => {
+  const source = parseImport(text);
+  return diffImport(source, guessMapping(source.headers), existing, families);
+};
+
+describe("parseImport", () => {
+  it("reads CSV with a header row", () => {
+    const source = parseImport('brand,model\nContinental,"GP5000, S TR"');
+    expect(source.headers).toEqual(["brand", "model"]);
+    expect(source.records).toEqual([{ brand: "Continental", model: "GP5000, S TR" }]);
+  });
+
+  it("reads a JSON array and collects every key", () => {
+    const source = parseImport('[{"brand":"A"},{"model":"B","year":2024}]');
+    expect(source.headers).toEqual(["brand", "model", "year"]);
+    expect(source.records[1]).toEqual({ model: "B", year: 2024 });
+  });
+
+  it("rejects empty input and malformed JSON", () => {
+    expect(() => parseImport("  ")).toThrow("内容为空");
+    expect(() => parseImport("[{")).toThrow("JSON 格式错误");
+    expect(() => parseImport("[1, 2]")).toThrow("JSON 应为对象数组");
+  });
+});
+
+describe("guessMapping", () => {
+  it("matches column names and Chinese labels, and ignores unknown headers", () => {
+    expect(guessMapping(["brand", "品牌", "标称胎宽", " Model ", "备注"])).toEqual({
+      brand: "brand",
+      品牌: "brand",
+      标称胎宽: "width_spec_mm",
+      " Model ": "model",
+      备注: null,
+    });
+  });
+});
+
+describe("diffImport", () => {
+  it("updates a tire with the same brand, model, width and year", () => {
+    const [row] = diffOf("brand,model,width_spec_mm,year,wet_center\nContinental,GP5000,28,2019,62");
+    expect(row.status).toBe("changed");
+    expect(row.write?.id).toBe("gp5000");
+    expect(row.changes).toEqual([{ column: "wet_center", from: 60, to: 62 }]);
+  });
+
+  it("reports matching rows without changes as unchanged", () => {
+    const [row] = diffOf("brand,model,width_spec_mm,year,wet_center\nContinental, GP5000 ,28,2019,60");
+    expect(row.status).toBe("unchanged");
+    expect(row.write).toBeNull();
+  });
+
+  it("inserts rows that match no tire", () => {
+    const [row] = diffOf("brand,model,width_spec_mm,year\nContinental,GP5000,30,2019");
+    expect(row.status).toBe("new");
+    expect(row.write).not.toHaveProperty("id");
+  });
+
+  it("rejects invalid values and duplicate rows", () => {
+    const rows = diffOf("brand,model,width_spec_mm,wet_center\nA,B,28,120\nC,D,28,\nC,D,28,");
+    expect(rows[0].status).toBe("invalid");
+    expect(rows[0].errors[0]).toContain("0–100");
+    expect(rows[1].status).toBe("new");
+    expect(rows[2].status).toBe("invalid");
+    expect(rows[2].errors).toContain("与第 2 行重复");
+  });
+
+  it("does not fill in a missing nominal width", () => {
+    const [row] = diffOf("brand,model\nA,B");
+    expect(row.status).toBe("invalid");
+    expect(row.write).toBeNull();
+  });
+
+  it("does not silently update a deleted tire", () => {
+    const [row] = diffOf("brand,model,width_spec_mm,year\nVittoria,Corsa,25,2018");
+    expect(row.status).toBe("invalid");
+    expect(row.errors.join()).toContain("已删除");
+  });
+
+  it("resolves the family by name and rejects unknown families", () => {
+    const rows = diffOf(
+      "brand,model,width_spec_mm,family_id\nContinental,GP5000 S TR,28,GP5000\nContinental,Other,28,Nope"
+    );
+    expect(rows[0].status).toBe("new");
+    expect(rows[0].write?.family_id).toBe(families[0].id);
+    expect(rows[1].status).toBe("invalid");
+    expect(rows[1].errors.join()).toContain("系列");
+  });
+
+  it("passes the test date through and validates its format", () => {
+    const rows = diffOf("brand,model,width_spec_mm,测试日期\nA,B,28,2026-05-01\nC,D,28,2026/5/1");
+    expect(rows[0].write?.tested_on).toBe("2026-05-01");
+    expect(rows[1].status).toBe("invalid");
+  });
+});
@@ -0,0 +1,224 @@
+import { parseCsv } from "@/lib/csv";
+import { tireFieldLabel } from "@/lib/tire-fields";
+import { EMPTY_TIRE, tireWriteSchema, toTireWrite, type TireWrite } from "@/lib/tire-schema";
+import type { Tables } from "@/integrations/supabase/types";
+import type { Tire } from "@/lib/recommendation";
+
+export type ImportColumn = keyof TireWrite;
+
+export const IMPORT_COLUMNS = Object.keys(EMPTY_TIRE) as ImportColumn[];
+
+const TEXT_COLUMNS: ImportColumn[] = [
+  "brand",
+  "model",
+  "tire_type",
+  "inner_tube",
+  "price_reference",
+  "source_site",
+  "tested_on",
+];
+
+type RawValue = string | number | boolean | null;
+
+export interface ImportSource {
+  headers: string[];
+  records: Record<string, RawValue>[];
+}
+
+/** 源文件列名 → tires 列；null 表示忽略该列 */
+export type ColumnMapping = Record<string, ImportColumn | null>;
+
+export type DiffStatus = "new" | "changed" | "unchanged" | "invalid";
+
+export interface FieldChange {
+  column: ImportColumn;
+  from: RawValue;
+  to: RawValue;
+}
+
+/** 写入的完整数据；更新已有轮胎时带 id */
+export type ImportWrite = TireWrite & { id?: string };
+
+export interface DiffRow {
+  /** 数据行序号（从 1 开始，不含表头） */
+  line: number;
+  status: DiffStatus;
+  label: string;
+  changes: FieldChange[];
+  errors: string[];
+  /** 新增或有变更的行才需要写入 */
+  write: ImportWrite | null;
+}
+
+export const columnLabel = (column: ImportColumn) => {
+  if (column === "retired") return "已停产";
+  if (column === "family_id") return "系列";
+  return tireFieldLabel(column);
+};
+
+type Family = Tables<"tire_families">;
+
+/**
+ * 系列列可填 id、"品牌 名称"，或同品牌下的系列名称；
+ * 找不到时保留原文，交给校验报错。
+ */
+const resolveFamily = (value: unknown, brand: unknown, families: Family[]): unknown => {
+  if (typeof value !== "string") return value;
+  const text = value.toLowerCase();
+  const sameBrand = (f: Family) => typeof brand === "string" && f.brand.toLowerCase() === brand.toLowerCase();
+  const family = families.find(
+    (f) =>
+      f.id === value ||
+      `${f.brand} ${f.name}`.toLowerCase() === text ||
+      (sameBrand(f) && f.name.toLowerCase() === text)
+  );
+  return family ? family.id : value;
+};
+
+/** 解析粘贴或上传的内容：以 [ 开头按 JSON 数组处理，否则按带表头的 CSV 处理 */
+export function parseImport(text: string): ImportSource {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("内容为空");
+
+  if (trimmed.startsWith("[")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error("JSON 格式错误");
+    }
+    if (!Array.isArray(data) || data.some((r) => typeof r !== "object" || r == null || Array.isArray(r))) {
+      throw new Error("JSON 应为对象数组");
+    }
+    const records = data as Record<string, RawValue>[];
+    const headers = Array.from(new Set(records.flatMap((r) => Object.keys(r))));
+    return { headers, records };
+  }
+
+  const [headerRow, ...body] = parseCsv(trimmed);
+  const headers = headerRow.map((h) => h.trim());
+  const records = body.map((cells) =>
+    Object.fromEntries(headers.map((h, i) => [h, cells[i] ?? ""]))
+  );
+  return { headers, records };
+}
+
+/** 按列名或中文展示名自动匹配列 */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalize = (name: string) => name.trim().toLowerCase();
+  return Object.fromEntries(
+    headers.map((header) => [
+      header,
+      IMPORT_COLUMNS.find(
+        (c) =>
+          normalize(c) === normalize(header) ||
+          normalize(columnLabel(c)) === normalize(header) ||
+          normalize(tireFieldLabel(c).replace(/（.*）$/, "")) === normalize(header)
+      ) ?? null,
+    ])
+  );
+}
+
+const coerce = (column: ImportColumn, raw: RawValue): unknown => {
+  if (raw == null || (typeof raw === "string" && raw.trim() === "")) return null;
+
+  if (column === "retired") {
+    if (typeof raw === "boolean") return raw;
+    const text = String(raw).trim().toLowerCase();
+    if (["true", "1", "yes", "是"].includes(text)) return true;
+    if (["false", "0", "no", "否"].includes(text)) return false;
+    return raw;
+  }
+  if (TEXT_COLUMNS.includes(column) || column === "family_id") return String(raw).trim();
+
+  if (typeof raw === "number") return raw;
+  const value = Number(String(raw).replace(/[¥,\s]/g, ""));
+  return Number.isNaN(value) ? raw : value;
+};
+
+const matchKey = (t: { brand: unknown; model: unknown; width_spec_mm: unknown; year: unknown }) =>
+  [t.brand, t.model, t.width_spec_mm, t.year]
+    .map((v) => (v == null ? "" : String(v).trim().toLowerCase()))
+    .join("|");
+
+/**
+ * 逐行校验并与现有轮胎比对（品牌 + 型号 + 标称胎宽 + 年份相同视为同一条），
+ * 只比较映射到的列，未出现的列保留原值。
+ * 匹配到已删除的轮胎、缺少标称胎宽的行都标为无效，不会悄悄写入。
+ */
+export function diffImport(
+  source: ImportSource,
+  mapping: ColumnMapping,
+  tires: Tire[],
+  families: Family[] = []
+): DiffRow[] {
+  // 同一键既有在售又有已删除的行时，优先匹配在售的
+  const existingByKey = new Map(
+    [...tires]
+      .sort((a, b) => Number(!!b.deleted_at) - Number(!!a.deleted_at))
+      .map((t) => [matchKey(t), t])
+  );
+  const seen = new Map<string, number>();
+
+  return source.records.map((record, index) => {
+    const line = index + 1;
+    const partial: Record<string, unknown> = {};
+    for (const [header, column] of Object.entries(mapping)) {
+      if (column && header in record) partial[column] = coerce(column, record[header]);
+    }
+    if ("family_id" in partial) {
+      partial.family_id = resolveFamily(partial.family_id, partial.brand, families);
+    }
+
+    const key = matchKey({
+      brand: partial.brand,
+      model: partial.model,
+      width_spec_mm: partial.width_spec_mm,
+      year: partial.year,
+    });
+    const existing = existingByKey.get(key);
+    // 标称胎宽必填：缺失时不套用新建表单的默认值，交给校验报错
+    const base = {
+      ...(existing ? toTireWrite(existing) : EMPTY_TIRE),
+      width_spec_mm: existing?.width_spec_mm ?? null,
+    };
+    const label = [partial.brand, partial.model, partial.width_spec_mm && `${partial.width_spec_mm}mm`]
+      .filter(Boolean)
+      .join(" ");
+
+    const result = tireWriteSchema.safeParse({ ...base, ...partial });
+    const duplicateOf = seen.get(key);
+    seen.set(key, duplicateOf ?? line);
+
+    const deleted = !!existing?.deleted_at;
+
+    if (!result.success || duplicateOf != null || deleted) {
+      const errors = result.success
+        ? []
+        : result.error.issues.map(
+            (issue) => `${columnLabel(issue.path[0] as ImportColumn)}：${issue.message}`
+          );
+      if (duplicateOf != null) errors.push(`与第 ${duplicateOf} 行重复`);
+      if (deleted) errors.push("匹配到已删除的轮胎，请先在列表中恢复后再导入");
+      return { line, status: "invalid", label, changes: [], errors, write: null };
+    }
+
+    if (!existing) {
+      return { line, status: "new", label, changes: [], errors: [], write: result.data };
+    }
+
+    const changes = IMPORT_COLUMNS.filter((c) => result.data[c] !== base[c]).map((column) => ({
+      column,
+      from: base[column],
+      to: result.data[column],
+    }));
+    return {
+      line,
+      status: changes.length ? "changed" : "unchanged",
+      label,
+      changes,
+      errors: [],
+      write: changes.length ? { ...result.data, id: existing.id } : null,
+    };
+  });
+}
@@ -0,0 +1,315 @@
+import { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, Upload } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import SiteHeader from "@/components/layout/SiteHeader";
+import { useToast } from "@/hooks/use-toast";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import type { Tire } from "@/lib/recommendation";
+import type { TireWrite } from "@/lib/tire-schema";
+import TireForm from "./TireForm";
+import ImportDialog from "./ImportDialog";
+import type { ImportWrite } from "./import";
+
+const statusOf = (tire: Tire) => {
+  if (tire.deleted_at) return { label: "已删除", className: "bg-[#fee2e2] text-[#991b1b]" };
+  if (tire.retired) return { label: "已停产", className: "bg-[#fef3c7] text-[#92400e]" };
+  return { label: "在售", className: "bg-[#dcfce7] text-[#166534]" };
+};
+
+// 轮胎目录管理：/admin/tires（仅管理员）
+export default function AdminTires() {
+  const [query, setQuery] = useState("");
+  // undefined 表示弹窗关闭，null 表示新建
+  const [editing, setEditing] = useState<Tire | null | undefined>(undefined);
+  const [deleting, setDeleting] = useState<Tire | null>(null);
+  const [importing, setImporting] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // 管理员通过 RLS 可以读到已删除的行
+  const { data: tires = [], isLoading, error } = useQuery({
+    queryKey: ["admin", "tires"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("tires")
+        .select("*")
+        .order("brand")
+        .order("model")
+        .order("width_spec_mm");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  // 系列用于表单选择与导入时按名称匹配
+  const { data: families = [] } = useQuery({
+    queryKey: ["tire_families"],
+    queryFn: async (): Promise<Tables<"tire_families">[]> => {
+      const { data, error } = await supabase
+        .from("tire_families")
+        .select("*")
+        .order("brand")
+        .order("name");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const rows = useMemo(() => {
+    const keyword = query.trim().toLowerCase();
+    if (!keyword) return tires;
+    return tires.filter((t) =>
+      `${t.brand ?? ""} ${t.model ?? ""}`.toLowerCase().includes(keyword)
+    );
+  }, [tires, query]);
+
+  const refresh = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["admin", "tires"] }),
+      queryClient.invalidateQueries({ queryKey: ["tires"] }),
+      // 指标与价格的改动由数据库触发器记为新的测试结果与价格观测
+      queryClient.invalidateQueries({ queryKey: ["tire_test_results"] }),
+      queryClient.invalidateQueries({ queryKey: ["tire_prices"] }),
+      // 新建的轮胎没有指定系列时，由数据库按品牌 + 型号归入系列
+      queryClient.invalidateQueries({ queryKey: ["tire_families"] }),
+    ]);
+
+  const reportError = (err: unknown) => {
+    console.error("Error saving tire:", err);
+    toast({
+      title: "保存失败",
+      description: "保存失败请重试",
+      variant: "destructive",
+      duration: 3000,
+    });
+  };
+
+  const update = async (id: string, changes: TablesUpdate<"tires">, message: string) => {
+    try {
+      const { error } = await supabase.from("tires").update(changes).eq("id", id);
+      if (error) throw error;
+      await refresh();
+      toast({ description: message, duration: 2000 });
+    } catch (err) {
+      reportError(err);
+    }
+  };
+
+  const handleSubmit = async (values: TireWrite) => {
+    try {
+      const { error } = editing
+        ? await supabase.from("tires").update(values).eq("id", editing.id)
+        : await supabase.from("tires").insert(values);
+      if (error) throw error;
+
+      await refresh();
+      setEditing(undefined);
+      toast({ description: editing ? "已保存" : "已新增", duration: 2000 });
+    } catch (err) {
+      reportError(err);
+    }
+  };
+
+  // import_tires 在一个事务内完成全部写入，任一行失败则整体回滚
+  const handleImport = async (rows: ImportWrite[]) => {
+    try {
+      const { data: count, error } = await supabase.rpc("import_tires", { rows });
+      if (error) throw error;
+
+      await refresh();
+      setImporting(false);
+      toast({ description: `已导入 ${count} 条`, duration: 2000 });
+      return true;
+    } catch (err) {
+      reportError(err);
+      return false;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    await update(deleting.id, { deleted_at: new Date().toISOString() }, "已删除");
+    setDeleting(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#f7f7f8]">
+      <SiteHeader>
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => setImporting(true)}
+          className="font-semibold rounded-lg h-9 px-4 mr-2"
+        >
+          <Upload className="mr-1.5 h-4 w-4" />
+          批量导入
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => setEditing(null)}
+          className="font-semibold rounded-lg h-9 px-4"
+        >
+          <Plus className="mr-1.5 h-4 w-4" />
+          新增轮胎
+        </Button>
+      </SiteHeader>
+
+      <main className="container mx-auto px-4 py-12 max-w-[1080px] space-y-6">
+        <div>
+          <h1 className="text-2xl font-extrabold text-foreground mb-2">轮胎目录</h1>
+          <p className="text-sm text-muted-foreground">
+            共 {tires.length} 条，停产的轮胎不再推荐，删除的轮胎对访客不可见
+          </p>
+        </div>
+
+        <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+          <div className="p-6 space-y-4">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="搜索品牌或型号"
+              className="sm:max-w-[240px]"
+            />
+
+            {isLoading || error ? (
+              <div className="p-12 text-center text-muted-foreground">
+                {isLoading ? <Loader2 className="mx-auto h-6 w-6 animate-spin" /> : "加载失败，请稍后重试"}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>品牌</TableHead>
+                    <TableHead>型号</TableHead>
+                    <TableHead>胎宽</TableHead>
+                    <TableHead>价格</TableHead>
+                    <TableHead>状态</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((tire) => {
+                    const status = statusOf(tire);
+                    return (
+                      <TableRow key={tire.id} className={tire.deleted_at ? "opacity-60" : undefined}>
+                        <TableCell className="font-medium">{tire.brand}</TableCell>
+                        <TableCell>{tire.model}</TableCell>
+                        <TableCell className="tabular-nums">{tire.width_spec_mm}mm</TableCell>
+                        <TableCell className="tabular-nums">
+                          {tire.price != null ? `¥${tire.price}` : "—"}
+                        </TableCell>
+                        <TableCell>
+                          <span className={`inline-block px-2 py-0.5 text-xs font-bold rounded-full ${status.className}`}>
+                            {status.label}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap space-x-1">
+                          {tire.deleted_at ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => update(tire.id, { deleted_at: null }, "已恢复")}
+                            >
+                              恢复
+                            </Button>
+                          ) : (
+                            <>
+                              <Button variant="ghost" size="sm" onClick={() => setEditing(tire)}>
+                                编辑
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() =>
+                                  update(
+                                    tire.id,
+                                    { retired: !tire.retired },
+                                    tire.retired ? "已恢复在售" : "已标记停产"
+                                  )
+                                }
+                              >
+                                {tire.retired ? "恢复在售" : "停产"}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => setDeleting(tire)}
+                              >
+                                删除
+                              </Button>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        没有符合条件的轮胎
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </Card>
+      </main>
+
+      <TireForm
+        tire={editing ?? null}
+        open={editing !== undefined}
+        onOpenChange={(open) => !open && setEditing(undefined)}
+        families={families}
+        onSubmit={handleSubmit}
+      />
+
+      <ImportDialog
+        open={importing}
+        onOpenChange={setImporting}
+        tires={tires}
+        families={families}
+        onApply={handleImport}
+      />
+
+      <AlertDialog open={deleting != null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>删除 {deleting?.brand} {deleting?.model}？</AlertDialogTitle>
+            <AlertDialogDescription>
+              删除后访客将无法看到这款轮胎，数据会保留，可随时在此恢复。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>删除</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { RR_COLUMN_SPEEDS, type Tire } from "@/lib/recommendation";
+
+interface CompareChartsProps {
+  tires: Tire[];
+}
+
+const SERIES_COLORS = ["#16a34a", "#2563eb", "#f59e0b", "#db2777"];
+
+// 图表 key 使用序号而非 uuid，保证生成的 CSS 变量名合法
+const seriesKey = (index: number) => `tire${index}`;
+
+export default function CompareCharts({ tires }: CompareChartsProps) {
+  const config: ChartConfig = Object.fromEntries(
+    tires.map((tire, i) => [
+      seriesKey(i),
+      { label: `${tire.brand} ${tire.model}`, color: SERIES_COLORS[i % SERIES_COLORS.length] },
+    ])
+  );
+
+  const rrData = RR_COLUMN_SPEEDS.map(({ column, speedKmh }) => ({
+    speed: `${speedKmh}km/h`,
+    ...Object.fromEntries(tires.map((tire, i) => [seriesKey(i), tire[column]])),
+  }));
+
+  const wetData = [
+    { position: "中心", key: "wet_center" as const },
+    { position: "边缘", key: "wet_edge" as const },
+  ].map(({ position, key }) => ({
+    position,
+    ...Object.fromEntries(tires.map((tire, i) => [seriesKey(i), tire[key]])),
+  }));
+
+  return (
+    <div className="grid grid-cols-1 gap-6">
+      <div className="space-y-3">
+        <h3 className="text-base font-bold text-foreground">滚阻 vs 速度（W，越低越好）</h3>
+        <ChartContainer config={config} className="h-[260px] w-full">
+          <LineChart data={rrData} margin={{ left: 0, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="speed" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend />
+            {tires.map((tire, i) => (
+              <Line
+                key={tire.id}
+                dataKey={seriesKey(i)}
+                name={`${tire.brand} ${tire.model}`}
+                type="monotone"
+                stroke={`var(--color-${seriesKey(i)})`}
+                strokeWidth={2}
+                dot
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-base font-bold text-foreground">湿地抓地：中心 / 边缘（越高越好）</h3>
+        <ChartContainer config={config} className="h-[260px] w-full">
+          <BarChart data={wetData} margin={{ left: 0, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="position" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend />
+            {tires.map((tire, i) => (
+              <Bar
+                key={tire.id}
+                dataKey={seriesKey(i)}
+                name={`${tire.brand} ${tire.model}`}
+                fill={`var(--color-${seriesKey(i)})`}
+                radius={4}
+              />
+            ))}
+          </BarChart>
+        </ChartContainer>
+      </div>
+    </div>
+  );
+}
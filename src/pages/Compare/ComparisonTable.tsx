@@ -0,0 +1,59 @@
+import { Link } from "react-router-dom";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TIRE_FIELDS, fieldWinners, formatTireField } from "@/lib/tire-fields";
+import type { Tire } from "@/lib/recommendation";
+
+interface ComparisonTableProps {
+  tires: Tire[];
+}
+
+// 按字段逐行对比，每项指标的最优值高亮
+export default function ComparisonTable({ tires }: ComparisonTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="whitespace-nowrap">指标</TableHead>
+          {tires.map((tire) => (
+            <TableHead key={tire.id} className="min-w-[140px] font-bold text-foreground">
+              <Link to={`/tires/${tire.id}`} className="hover:text-primary">
+                {tire.brand} {tire.model}
+              </Link>
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {TIRE_FIELDS.map((field) => {
+          const winners = fieldWinners(tires, field);
+          return (
+            <TableRow key={field.key}>
+              <TableCell className="whitespace-nowrap text-muted-foreground">
+                {field.label}
+              </TableCell>
+              {tires.map((tire) => (
+                <TableCell
+                  key={tire.id}
+                  className={
+                    winners.includes(tire.id)
+                      ? "bg-[#dcfce7] text-[#166534] font-bold tabular-nums"
+                      : "tabular-nums break-all"
+                  }
+                >
+                  {formatTireField(tire, field)}
+                </TableCell>
+              ))}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import SiteHeader from "@/components/layout/SiteHeader";
+import { useTires } from "@/hooks/use-tires";
+import ComparisonTable from "./ComparisonTable";
+import CompareCharts from "./CompareCharts";
+
+const MIN_TIRES = 2;
+const MAX_TIRES = 4;
+
+// 轮胎横向对比页：/compare?ids=<id1>,<id2>[,<id3>,<id4>]
+export default function Compare() {
+  const [searchParams] = useSearchParams();
+  const ids = useMemo(
+    () =>
+      Array.from(new Set((searchParams.get("ids") || "").split(",").filter(Boolean))),
+    [searchParams]
+  );
+  const validCount = ids.length >= MIN_TIRES && ids.length <= MAX_TIRES;
+  const { data, isLoading, error } = useTires(validCount ? ids : []);
+
+  // 保持 URL 中的顺序
+  const tires = useMemo(
+    () => ids.map((id) => (data || []).find((t) => t.id === id)).filter(Boolean),
+    [ids, data]
+  );
+
+  useEffect(() => {
+    if (tires.length > 0) {
+      document.title = `${tires.map((t) => `${t.brand} ${t.model}`).join(" vs ")} - 轮胎对比 | Iron Legs`;
+    }
+  }, [tires]);
+
+  let content: React.ReactNode;
+  if (!validCount) {
+    content = `请选择 ${MIN_TIRES}–${MAX_TIRES} 款轮胎进行对比`;
+  } else if (isLoading) {
+    content = <Loader2 className="mx-auto h-6 w-6 animate-spin" />;
+  } else if (error) {
+    content = "加载失败，请稍后重试";
+  } else if (tires.length < MIN_TIRES) {
+    content = "未找到对应的轮胎数据";
+  }
+
+  return (
+    <div className="min-h-screen bg-[#f7f7f8]">
+      <SiteHeader />
+
+      <main className="container mx-auto px-4 py-12 max-w-[860px] space-y-6">
+        <div>
+          <h1 className="text-2xl font-extrabold text-foreground mb-2">轮胎横向对比</h1>
+          <p className="text-sm text-muted-foreground">绿色高亮为该项指标表现最好的轮胎</p>
+        </div>
+
+        {content ? (
+          <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl bg-white">
+            <div className="p-12 text-center text-muted-foreground">{content}</div>
+          </Card>
+        ) : (
+          <>
+            <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+              <div className="p-4 md:p-6">
+                <ComparisonTable tires={tires} />
+              </div>
+            </Card>
+            <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+              <div className="p-6 md:p-7">
+                <CompareCharts tires={tires} />
+              </div>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { RR_COLUMN_SPEEDS, type TireWithScore } from "@/lib/recommendation";
+
+interface ResultsExplorerProps {
+  /** 完整排名（已按推荐顺序排列） */
+  ranking: TireWithScore[];
+  /** 当前 Top 3 的轮胎 id，用于高亮 */
+  topIds: string[];
+}
+
+interface RankedRow extends TireWithScore {
+  rank: number;
+}
+
+type SortKey =
+  | "rank"
+  | "brand"
+  | "model"
+  | "width_spec_mm"
+  | "wet_center"
+  | "wet_edge"
+  | "rr_med_w"
+  | "rr_high_w"
+  | "rr_extra_high_w"
+  | "rr_ultra_high_w"
+  | "price"
+  | "score";
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: "rank", label: "#", numeric: true },
+  { key: "brand", label: "品牌" },
+  { key: "model", label: "型号" },
+  { key: "width_spec_mm", label: "胎宽", numeric: true },
+  { key: "wet_center", label: "湿地中心", numeric: true },
+  { key: "wet_edge", label: "湿地边缘", numeric: true },
+  ...RR_COLUMN_SPEEDS.map(({ column, speedKmh }) => ({
+    key: column,
+    label: `RR ${speedKmh}km/h`,
+    numeric: true,
+  })),
+  { key: "price", label: "价格", numeric: true },
+  { key: "score", label: "得分", numeric: true },
+];
+
+const PAGE_SIZE = 10;
+
+const formatCell = (row: RankedRow, key: SortKey) => {
+  const value = row[key];
+  if (value == null) return "—";
+  if (key === "price") return `¥${value}`;
+  if (key === "score") return (value as number).toFixed(1);
+  return String(value);
+};
+
+// 空值始终排在最后，与排序方向无关
+const compareRows = (key: SortKey, direction: 1 | -1) => (a: RankedRow, b: RankedRow) => {
+  const av = a[key];
+  const bv = b[key];
+  if (av == null && bv == null) return 0;
+  if (av == null) return 1;
+  if (bv == null) return -1;
+  if (typeof av === "number" && typeof bv === "number") return (av - bv) * direction;
+  return String(av).localeCompare(String(bv)) * direction;
+};
+
+// 全部评分结果的可排序、可筛选表格，Top 3 高亮
+export default function ResultsExplorer({ ranking, topIds }: ResultsExplorerProps) {
+  const [query, setQuery] = useState("");
+  const [width, setWidth] = useState<number | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>("rank");
+  const [direction, setDirection] = useState<1 | -1>(1);
+  const [page, setPage] = useState(0);
+
+  const widths = useMemo(
+    () =>
+      Array.from(
+        new Set(ranking.map((t) => t.width_spec_mm).filter((w): w is number => w != null))
+      ).sort((a, b) => a - b),
+    [ranking]
+  );
+
+  const rows = useMemo(() => {
+    const keyword = query.trim().toLowerCase();
+    return ranking
+      .map((tire, index) => ({ ...tire, rank: index + 1 }))
+      .filter((t) => width == null || t.width_spec_mm === width)
+      .filter(
+        (t) => !keyword || `${t.brand ?? ""} ${t.model ?? ""}`.toLowerCase().includes(keyword)
+      )
+      .sort(compareRows(sortKey, direction));
+  }, [ranking, query, width, sortKey, direction]);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDirection(direction === 1 ? -1 : 1);
+    } else {
+      setSortKey(key);
+      // 得分默认从高到低，其余默认升序
+      setDirection(key === "score" ? -1 : 1);
+    }
+    setPage(0);
+  };
+
+  const goTo = (next: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    setPage(Math.min(Math.max(next, 0), pageCount - 1));
+  };
+
+  return (
+    <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+      <div className="p-6 space-y-4">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          <Input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setPage(0);
+            }}
+            placeholder="搜索品牌或型号"
+            className="sm:max-w-[240px]"
+          />
+          <div className="flex flex-wrap gap-2">
+            {[null, ...widths].map((w) => (
+              <button
+                key={w ?? "all"}
+                onClick={() => {
+                  setWidth(w);
+                  setPage(0);
+                }}
+                className={`px-3 py-1.5 rounded-lg text-xs font-semibold border transition-all ${
+                  width === w
+                    ? "bg-primary text-primary-foreground border-primary"
+                    : "bg-white text-foreground border-[#e5e7eb] hover:border-primary/40"
+                }`}
+              >
+                {w == null ? "全部胎宽" : `${w}mm`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {COLUMNS.map((col) => (
+                <TableHead key={col.key} className="whitespace-nowrap">
+                  <button
+                    onClick={() => handleSort(col.key)}
+                    className="inline-flex items-center gap-1 font-semibold"
+                  >
+                    {col.label}
+                    {sortKey !== col.key ? (
+                      <ArrowUpDown className="h-3 w-3 opacity-40" />
+                    ) : direction === 1 ? (
+                      <ArrowUp className="h-3 w-3" />
+                    ) : (
+                      <ArrowDown className="h-3 w-3" />
+                    )}
+                  </button>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pageRows.map((row) => (
+              <TableRow
+                key={row.id}
+                className={topIds.includes(row.id) ? "bg-[#dcfce7]/60 font-semibold" : undefined}
+              >
+                {COLUMNS.map((col) => (
+                  <TableCell
+                    key={col.key}
+                    className={`whitespace-nowrap ${col.numeric ? "tabular-nums" : ""}`}
+                  >
+                    {formatCell(row, col.key)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+            {pageRows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={COLUMNS.length} className="text-center text-muted-foreground">
+                  没有符合筛选条件的轮胎
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {pageCount > 1 && (
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious href="#" onClick={goTo(currentPage - 1)} />
+              </PaginationItem>
+              {Array.from({ length: pageCount }, (_, i) => (
+                <PaginationItem key={i}>
+                  <PaginationLink href="#" isActive={i === currentPage} onClick={goTo(i)}>
+                    {i + 1}
+                  </PaginationLink>
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext href="#" onClick={goTo(currentPage + 1)} />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Loader2, ThumbsDown, ThumbsUp } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  TIRE_FEEDBACK_COMMENT_MAX,
+  TIRE_FEEDBACK_REASONS,
+  TIRE_FEEDBACK_REASON_LABELS,
+  tireFeedbackInsertSchema,
+  type TireFeedbackReason,
+  type TireVote,
+} from "@/lib/feedback";
+
+interface TireFeedbackProps {
+  tireId: string;
+  /** 卡片在推荐中的名次（从 1 开始） */
+  rank: number;
+  /** 问卷答案，与分享链接的查询参数相同 */
+  answers: Record<string, string>;
+}
+
+// 单张结果卡片的赞 / 踩，踩时可选原因，并可附加留言
+export default function TireFeedback({ tireId, rank, answers }: TireFeedbackProps) {
+  const [vote, setVote] = useState<TireVote | null>(null);
+  const [reasons, setReasons] = useState<TireFeedbackReason[]>([]);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const { toast } = useToast();
+
+  const toggleReason = (reason: TireFeedbackReason, checked: boolean) => {
+    setReasons(checked ? [...reasons, reason] : reasons.filter((r) => r !== reason));
+  };
+
+  const handleSubmit = async () => {
+    if (!vote) return;
+    setSubmitting(true);
+
+    try {
+      const row = tireFeedbackInsertSchema.parse({
+        tire_id: tireId,
+        rank,
+        vote,
+        reasons: vote === "down" ? reasons : [],
+        comment: comment.trim() || null,
+        answers,
+      });
+      const { error } = await supabase.from("tire_feedback").insert(row);
+      if (error) throw error;
+
+      setSubmitted(true);
+      toast({
+        description: "感谢反馈",
+        duration: 2000,
+      });
+
+      // 上报 GA 事件：单条轮胎反馈
+      if (typeof window !== 'undefined' && window.gtag) {
+        window.gtag('event', `tire_feedback_${vote}`, {
+          event_category: 'User Feedback',
+          tire_id: tireId,
+          rank,
+          reasons: row.reasons.join(","),
+        });
+      }
+    } catch (err) {
+      console.error("Error submitting tire feedback:", err);
+      toast({
+        title: "提交失败",
+        description: "提交失败请重试",
+        variant: "destructive",
+        duration: 3000,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return <p className="text-xs text-primary font-medium">已收到你对这款轮胎的反馈</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground">这条推荐靠谱吗？</span>
+        {(["up", "down"] as const).map((value) => {
+          const Icon = value === "up" ? ThumbsUp : ThumbsDown;
+          return (
+            <Button
+              key={value}
+              variant={vote === value ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setVote(value)}
+              className="h-8 w-8 p-0 rounded-lg"
+              aria-label={value === "up" ? "推荐靠谱" : "推荐不靠谱"}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </Button>
+          );
+        })}
+      </div>
+
+      {vote && (
+        <div className="space-y-3 rounded-lg border border-[#e5e7eb] bg-[#f9fafb] p-4">
+          {vote === "down" && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {TIRE_FEEDBACK_REASONS.map((reason) => (
+                <div key={reason} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`${tireId}-${reason}`}
+                    checked={reasons.includes(reason)}
+                    onCheckedChange={(checked) => toggleReason(reason, checked === true)}
+                  />
+                  <Label htmlFor={`${tireId}-${reason}`} className="text-xs font-normal">
+                    {TIRE_FEEDBACK_REASON_LABELS[reason]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={TIRE_FEEDBACK_COMMENT_MAX}
+            placeholder="补充说明（可选）"
+            className="min-h-[64px] text-xs bg-white"
+          />
+          <Button
+            size="sm"
+            onClick={handleSubmit}
+            disabled={submitting}
+            className="h-8 px-4 text-xs font-semibold rounded-lg"
+          >
+            {submitting && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
+            提交
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
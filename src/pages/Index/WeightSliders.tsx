@@ -0,0 +1,83 @@
+import { ChevronDown, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import type { MetricKey, ScoreWeights } from "@/lib/recommendation";
+
+interface WeightSlidersProps {
+  weights: ScoreWeights;
+  onChange: (weights: ScoreWeights) => void;
+  onReset: () => void;
+  /** 数据中存在耐磨指标时才显示耐磨滑块 */
+  showDurability: boolean;
+}
+
+const SLIDERS: { key: MetricKey; label: string }[] = [
+  { key: "wg", label: "湿地抓地" },
+  { key: "rr", label: "滚阻" },
+  { key: "price", label: "价格" },
+  { key: "durability", label: "耐磨" },
+];
+
+// 高级设置：连续调节各指标权重，结果在本地实时重排
+export default function WeightSliders({
+  weights,
+  onChange,
+  onReset,
+  showDurability,
+}: WeightSlidersProps) {
+  const total = Object.values(weights).reduce((sum, w) => sum + w, 0) || 1;
+
+  return (
+    <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+      <Collapsible>
+        <CollapsibleTrigger className="group w-full flex items-center justify-between px-6 py-4 text-sm font-bold text-foreground">
+          高级设置：自定义权重
+          <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <div className="px-6 pb-6 space-y-5">
+            {SLIDERS.filter(({ key }) => key !== "durability" || showDurability).map(
+              ({ key, label }) => (
+                <div key={key} className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-semibold text-foreground">{label}</span>
+                    <span className="font-bold text-primary">
+                      {Math.round((weights[key] / total) * 100)}%
+                    </span>
+                  </div>
+                  <Slider
+                    value={[Math.round(weights[key] * 100)]}
+                    min={0}
+                    max={100}
+                    step={5}
+                    onValueChange={([value]) => onChange({ ...weights, [key]: value / 100 })}
+                  />
+                </div>
+              )
+            )}
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-muted-foreground">
+                百分比为各项在总分中的占比，拖动后排名实时更新
+              </p>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onReset}
+                className="h-8 px-3 text-xs font-medium rounded-lg hover:bg-secondary"
+              >
+                <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+                恢复预设
+              </Button>
+            </div>
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
@@ -0,0 +1,1239 @@
+import { useState, useRef, useEffect, useMemo, useCallback } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, ChevronRight, RotateCcw, Copy, Check, Share2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import SiteHeader from "@/components/layout/SiteHeader";
+import { copyText } from "@/lib/clipboard";
+import { readServerSentEvents } from "@/lib/sse";
+import {
+  HELPFULNESS_LABELS,
+  HELPFULNESS_VALUES,
+  type FeedbackInsert,
+  type FeedbackNotifyPayload,
+  type Helpfulness,
+} from "@/lib/feedback";
+import {
+  BAR_TO_PSI,
+  CLEARANCE_TIGHT_MM,
+  FRAME_PRESETS,
+  PRICE_MEDIAN_WINDOW_DAYS,
+  applyPrices,
+  applySources,
+  decodePreferences,
+  durabilityOf,
+  encodePreferences,
+  explainTire,
+  formatConstruction,
+  peerGroupLabel,
+  rankTires,
+  recommend,
+  resolveWeights,
+  type RecommendationPreferences,
+  type PressureStyle,
+  type PriceMode,
+  type PriceObservation,
+  type ScoreWeights,
+  type SetupPreference,
+  type SourceMode,
+  type SortMode,
+  type SpeedPreference,
+  type Tire,
+  type TireWithScore,
+  type WetPreference,
+  type WidthPreference,
+} from "@/lib/recommendation";
+import WeightSliders from "./WeightSliders";
+import ResultsExplorer from "./ResultsExplorer";
+import TireFeedback from "./TireFeedback";
+
+interface RecommendedTire extends TireWithScore {
+  explanation: string; // AI 或本地规则生成的推荐理由
+}
+
+const FEEDBACK_NOTIFY_KEY = "feedback_notified_v1";
+
+// 多来源测试结果的合并方式，来源可信度在 test_sources 表中配置；
+// latest 直接使用轮胎行（最新结果，含管理员更正），与对比页、详情页显示的数据一致
+const SOURCE_MODE: SourceMode = "latest";
+
+// 评分与预算使用的价格：最新一次或近期中位数
+const PRICE_MODE: PriceMode = "median";
+
+// 关闭后不再调用 explain_tires，推荐理由全部由本地规则生成
+const AI_EXPLANATIONS_ENABLED = true;
+
+// 推荐理由流的最长等待时间，超时后未到的理由回落到本地规则
+const EXPLANATION_TIMEOUT_MS = 20000;
+
+/** PostgREST 单次最多返回 1000 行，价格观测按页拉取 */
+const PAGE_SIZE = 1000;
+
+/**
+ * 近 PRICE_MEDIAN_WINDOW_DAYS 天的人民币价格观测，按轮胎与日期排序分页拉取。
+ * 更早的观测不参与中位价；没有近期观测的轮胎沿用 tires.price（最新一次价格）。
+ */
+const fetchRecentPrices = async (): Promise<PriceObservation[]> => {
+  const since = new Date();
+  since.setDate(since.getDate() - PRICE_MEDIAN_WINDOW_DAYS);
+  const prices: PriceObservation[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("tire_prices")
+      .select("*")
+      .eq("currency", "CNY")
+      .gte("observed_on", since.toISOString().slice(0, 10))
+      .order("tire_id", { ascending: true })
+      .order("observed_on", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    prices.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return prices;
+  }
+};
+
+/** Top3 阵容：id 与顺序。AI 推荐理由会提到名次与其他两条轮胎，只对同一阵容有效 */
+const lineupKey = (tires: { id: string }[]) => tires.map((t) => t.id).join(",");
+
+const notifyFeedbackOnce = async (feedback: FeedbackInsert) => {
+  if (typeof window === "undefined") return;
+  if (window.localStorage.getItem(FEEDBACK_NOTIFY_KEY)) return;
+
+  const payload: FeedbackNotifyPayload = {
+    feedback,
+    source: window.location.href,
+  };
+
+  const response = await fetch("/api/notify-feedback", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Notify failed: ${response.status}`);
+  }
+
+  window.localStorage.setItem(FEEDBACK_NOTIFY_KEY, "1");
+};
+
+export default function Index() {
+  const BUILD_TAG = "2025-02-15-1";
+  const [wetPref, setWetPref] = useState<WetPreference>("normal");
+  const [widthPref, setWidthPref] = useState<WidthPreference>("28");
+  const [speedPref, setSpeedPref] = useState<SpeedPreference>("training");
+  const [setupPref, setSetupPref] = useState<SetupPreference>("any");
+  const [budget, setBudget] = useState<number | null>(null);
+  const [sortMode, setSortMode] = useState<SortMode>("score");
+  const [systemWeightKg, setSystemWeightKg] = useState<number | null>(null);
+  const [rimWidthMm, setRimWidthMm] = useState<number | null>(null);
+  const [pressureStyle, setPressureStyle] = useState<PressureStyle>("balanced");
+  const [frameClearanceMm, setFrameClearanceMm] = useState<number | null>(null);
+  // 从常见车架列表中选中的车架，手动修改最大胎宽后清空
+  const [framePresetId, setFramePresetId] = useState<string | null>(null);
+  const [customWeights, setCustomWeights] = useState<ScoreWeights | null>(null);
+  const [tires, setTires] = useState<Tire[]>([]);
+  // AI 推荐理由按阵容缓存：阵容 → 轮胎 id → 理由
+  const [explanations, setExplanations] = useState<Record<string, Record<string, string>>>({});
+  // 仍在等待 AI 推荐理由的轮胎 id
+  const [pendingExplanations, setPendingExplanations] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [showResults, setShowResults] = useState(false);
+  const [feedback, setFeedback] = useState<Helpfulness | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [showExplorer, setShowExplorer] = useState(false);
+  const resultsRef = useRef<HTMLDivElement>(null);
+  const sharedLoadedRef = useRef(false);
+  const streamRef = useRef<AbortController | null>(null);
+  // 正在接收推荐理由的阵容
+  const streamLineupRef = useRef<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { toast } = useToast();
+
+  const preferences = useMemo<RecommendationPreferences>(
+    () => ({
+      wetPref,
+      widthPref,
+      speedPref,
+      setupPref,
+      budget,
+      sortMode,
+      systemWeightKg,
+      rimWidthMm,
+      pressureStyle,
+      frameClearanceMm,
+      weights: customWeights ?? undefined,
+    }),
+    [
+      wetPref,
+      widthPref,
+      speedPref,
+      setupPref,
+      budget,
+      sortMode,
+      systemWeightKg,
+      rimWidthMm,
+      pressureStyle,
+      frameClearanceMm,
+      customWeights,
+    ]
+  );
+
+  // 排名在本地根据已拉取的数据实时计算，调整权重无需重新请求
+  // 调整权重后阵容（成员或顺序）变化时，AI 理由不再适用，改用本地规则生成的理由
+  const ranking = useMemo(() => rankTires(tires, preferences), [tires, preferences]);
+  const results = useMemo<RecommendedTire[]>(() => {
+    const top3 = ranking.slice(0, 3);
+    const cached = explanations[lineupKey(top3)] ?? {};
+    return top3.map((tire) => ({
+      ...tire,
+      explanation: cached[tire.id] ?? explainTire(tire, top3, preferences),
+    }));
+  }, [ranking, preferences, explanations]);
+  const lineup = lineupKey(results);
+
+  // 反馈中记录的问卷答案，与分享链接的查询参数同构
+  const feedbackAnswers = useMemo(
+    () => Object.fromEntries(encodePreferences(preferences)),
+    [preferences]
+  );
+
+  const hasDurabilityData = useMemo(
+    () => tires.some((t) => durabilityOf(t) != null),
+    [tires]
+  );
+
+  // 结果展示期间让 URL 始终对应当前答案与权重
+  useEffect(() => {
+    if (showResults) {
+      setSearchParams(encodePreferences(preferences), { replace: true });
+    }
+  }, [showResults, preferences, setSearchParams]);
+
+  useEffect(() => {
+    if (showResults && resultsRef.current) {
+      resultsRef.current.scrollIntoView({ behavior: "smooth", block: "start" });
+    }
+  }, [showResults]);
+
+  // 动态更新页面 SEO 信息
+  useEffect(() => {
+    if (showResults && results.length > 0) {
+      const top1 = results[0];
+      const title = `${top1.brand} ${top1.model} - 公路车轮胎推荐结果 | Iron Legs`;
+      const description = `为你推荐：${results.map((t, i) => `${i + 1}. ${t.brand} ${t.model} ${t.width_spec_mm}mm`).join('；')}。基于湿地抓地和滚阻性能的专业评测数据。`;
+      
+      document.title = title;
+      
+      // 更新 meta description
+      const metaDesc = document.querySelector('meta[name="description"]');
+      if (metaDesc) {
+        metaDesc.setAttribute('content', description);
+      }
+      
+      // 更新 OG tags
+      const ogTitle = document.querySelector('meta[property="og:title"]');
+      const ogDesc = document.querySelector('meta[property="og:description"]');
+      if (ogTitle) ogTitle.setAttribute('content', title);
+      if (ogDesc) ogDesc.setAttribute('content', description);
+    } else {
+      // 重置为默认标题
+      document.title = '公路车轮胎购买指南 - 基于测试数据的智能推荐工具 | Iron Legs';
+    }
+  }, [showResults, results]);
+
+  const applyPreferences = useCallback((prefs: RecommendationPreferences) => {
+    setWetPref(prefs.wetPref);
+    setWidthPref(prefs.widthPref);
+    setSpeedPref(prefs.speedPref);
+    setSetupPref(prefs.setupPref);
+    setBudget(prefs.budget);
+    setSortMode(prefs.sortMode);
+    setSystemWeightKg(prefs.systemWeightKg);
+    setRimWidthMm(prefs.rimWidthMm);
+    setPressureStyle(prefs.pressureStyle);
+    setFrameClearanceMm(prefs.frameClearanceMm);
+    setFramePresetId(null);
+    setCustomWeights(prefs.weights ?? null);
+  }, []);
+
+  // 以 SSE 接收 explain_tires 的推荐理由，每到一条就写入对应卡片；
+  // 失败、超时或未返回的轮胎在结束后回落到本地规则生成的理由
+  const streamExplanations = useCallback(async (top3: TireWithScore[], prefs: RecommendationPreferences) => {
+    streamRef.current?.abort();
+    const controller = new AbortController();
+    const lineup = lineupKey(top3);
+    streamRef.current = controller;
+    streamLineupRef.current = lineup;
+    setPendingExplanations(top3.map((t) => t.id));
+    // 计时覆盖请求与整个读流过程；invoke 的 timeout 只管到响应头返回
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, EXPLANATION_TIMEOUT_MS);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('explain_tires', {
+        body: {
+          tires: top3,
+          wetPref: prefs.wetPref,
+          speedPref: prefs.speedPref,
+          setupPref: prefs.setupPref,
+          sortMode: prefs.sortMode,
+        },
+        headers: { Accept: "text/event-stream" },
+        signal: controller.signal,
+      });
+      if (error) throw error;
+
+      for await (const { event, data: payload } of readServerSentEvents(data as Response)) {
+        if (event === "explanation") {
+          const { id, explanation } = JSON.parse(payload) as { id: string; explanation: string };
+          setExplanations((prev) => ({ ...prev, [lineup]: { ...prev[lineup], [id]: explanation } }));
+          setPendingExplanations((prev) => prev.filter((pending) => pending !== id));
+        } else if (event === "error") {
+          throw new Error(payload);
+        } else if (event === "done") {
+          break;
+        }
+      }
+    } catch (err) {
+      if (timedOut) console.error(`Explanations timed out after ${EXPLANATION_TIMEOUT_MS}ms`);
+      else if (!controller.signal.aborted) console.error("Error explaining tires:", err);
+    } finally {
+      clearTimeout(timer);
+      if (streamRef.current === controller) {
+        streamRef.current = null;
+        streamLineupRef.current = null;
+        setPendingExplanations([]);
+      }
+    }
+  }, []);
+
+  const stopExplanations = useCallback(() => {
+    streamRef.current?.abort();
+    streamRef.current = null;
+    streamLineupRef.current = null;
+    setPendingExplanations([]);
+  }, []);
+
+  // 接收途中阵容已变（如拖动权重滑块），停止接收，卡片改用本地规则的理由
+  useEffect(() => {
+    if (streamRef.current && streamLineupRef.current !== lineup) stopExplanations();
+  }, [lineup, stopExplanations]);
+
+  const handleGenerate = useCallback(async (prefs: RecommendationPreferences) => {
+    const {
+      wetPref,
+      widthPref,
+      speedPref,
+      setupPref,
+      budget,
+      sortMode,
+      systemWeightKg,
+      rimWidthMm,
+      pressureStyle,
+      frameClearanceMm,
+    } = prefs;
+    setLoading(true);
+    setFeedback(null);
+
+    try {
+      // 已停产或已删除的轮胎不再推荐
+      const { data, error } = await supabase
+        .from("tires")
+        .select("*")
+        .eq("retired", false)
+        .is("deleted_at", null);
+
+      if (error) throw error;
+
+      // 同一款轮胎有多个来源的测试结果时，按来源可信度合并；失败时沿用最新结果
+      const { data: results, error: resultsError } =
+        SOURCE_MODE === "latest"
+          ? { data: [], error: null }
+          : await supabase.from("tire_test_results").select("*, source:test_sources(*)");
+      if (resultsError) console.error("Error fetching test results:", resultsError);
+
+      // 价格按近期中位数计，避免一次促销影响预算筛选与性价比排序
+      const prices =
+        PRICE_MODE === "latest"
+          ? []
+          : await fetchRecentPrices().catch((err) => {
+              console.error("Error fetching prices:", err);
+              return [];
+            });
+
+      const prepared = applyPrices(
+        applySources(data || [], results || [], SOURCE_MODE),
+        prices,
+        PRICE_MODE
+      );
+
+      // 评分与排序（优先胎宽在前）取 Top3
+      const top3 = recommend(prepared, prefs, { limit: 3 });
+
+      // 先展示排名与数据，AI 推荐理由随后逐条流入卡片
+      setTires(prepared);
+      setExplanations({});
+      setShowResults(true);
+      if (AI_EXPLANATIONS_ENABLED && top3.length > 0) {
+        void streamExplanations(top3, prefs);
+      }
+
+      // 上报 GA 事件：生成推荐成功
+      if (typeof window !== 'undefined' && window.gtag) {
+        window.gtag('event', 'generate_recommendation', {
+          event_category: 'User Action',
+          event_label: `Q1:${wetPref} | Q2:${widthPref} | Q3:${speedPref} | Q4:${setupPref} | Q5:${budget ?? "any"}`,
+          q1_wet_preference: wetPref,
+          q2_width_preference: widthPref,
+          q3_speed_preference: speedPref,
+          q4_setup_preference: setupPref,
+          q5_budget: budget,
+          q6_system_weight: systemWeightKg,
+          q7_rim_width: rimWidthMm,
+          q8_pressure_style: pressureStyle,
+          q9_frame_clearance: frameClearanceMm,
+          sort_mode: sortMode,
+          results_count: top3.length,
+          top1_brand: top3[0]?.brand,
+          top1_model: top3[0]?.model,
+        });
+      }
+    } catch (err) {
+      console.error("Error fetching tires:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [streamExplanations]);
+
+  // 链接中带有问卷答案时（分享 / 刷新）自动恢复并生成推荐；只在首次进入页面时执行
+  useEffect(() => {
+    if (sharedLoadedRef.current) return;
+    sharedLoadedRef.current = true;
+
+    const shared = decodePreferences(searchParams);
+    if (!shared) return;
+    applyPreferences(shared);
+    handleGenerate(shared);
+  }, [searchParams, applyPreferences, handleGenerate]);
+
+  const handleReset = () => {
+    stopExplanations();
+    setShowResults(false);
+    setTires([]);
+    setExplanations({});
+    setCustomWeights(null);
+    setFeedback(null);
+    setShowExplorer(false);
+    setSearchParams({});
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleLogoClick = () => {
+    if (showResults) {
+      stopExplanations();
+      setShowResults(false);
+      setTires([]);
+      setExplanations({});
+      setCustomWeights(null);
+      setFeedback(null);
+      setShowExplorer(false);
+      setSearchParams({});
+    }
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleFeedback = async (value: Helpfulness) => {
+    setFeedback(value);
+    
+    // 准备反馈数据
+    const feedbackData: FeedbackInsert = {
+      helpfulness: value,
+      q1_importance: wetPref,
+      q2_width_pref: widthPref,
+      top1: results[0] ? `${results[0].brand} ${results[0].model} ${results[0].width_spec_mm}mm` : null,
+      top2: results[1] ? `${results[1].brand} ${results[1].model} ${results[1].width_spec_mm}mm` : null,
+      top3: results[2] ? `${results[2].brand} ${results[2].model} ${results[2].width_spec_mm}mm` : null,
+    };
+
+    // 上报 GA 自定义事件
+    if (typeof window !== 'undefined' && window.gtag) {
+      window.gtag('event', `feedback_${value}`, {
+        event_category: 'User Feedback',
+        event_label: `Q1:${wetPref} | Q2:${widthPref} | Q3:${speedPref} | Q4:${setupPref} | Q5:${budget ?? "any"}`,
+        q1_wet_preference: wetPref,
+        q2_width_preference: widthPref,
+        q3_speed_preference: speedPref,
+        q4_setup_preference: setupPref,
+        q5_budget: budget,
+        q6_system_weight: systemWeightKg,
+        q7_rim_width: rimWidthMm,
+        q8_pressure_style: pressureStyle,
+        q9_frame_clearance: frameClearanceMm,
+        sort_mode: sortMode,
+        top1_tire: feedbackData.top1,
+        top2_tire: feedbackData.top2,
+        top3_tire: feedbackData.top3,
+      });
+    }
+
+    try {
+      const { error } = await supabase.from("feedback").insert(feedbackData);
+      
+      if (error) throw error;
+
+      try {
+        await notifyFeedbackOnce(feedbackData);
+      } catch (notifyError) {
+        console.error("Error sending Feishu notification:", notifyError);
+      }
+      
+      toast({
+        description: "感谢反馈",
+        duration: 2000,
+      });
+    } catch (err) {
+      console.error("Error submitting feedback:", err);
+      toast({
+        title: "提交失败",
+        description: "提交失败请重试",
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  };
+
+  const handleCopy = async (tire: RecommendedTire) => {
+    const tireName = `${tire.brand} ${tire.model} ${tire.width_spec_mm}mm`;
+
+    try {
+      const method = await copyText(tireName);
+      setCopiedId(tire.id);
+      toast({
+        description: "已复制轮胎名称",
+        duration: 2000,
+      });
+      setTimeout(() => setCopiedId(null), 2000);
+
+      // 上报 GA 事件：复制轮胎名称
+      if (typeof window !== 'undefined' && window.gtag) {
+        window.gtag('event', 'copy_tire_name', {
+          event_category: 'User Action',
+          event_label: tireName,
+          tire_brand: tire.brand,
+          tire_model: tire.model,
+          tire_width: tire.width_spec_mm,
+          ...(method === 'fallback' ? { copy_method: 'fallback' } : {}),
+        });
+      }
+    } catch (err) {
+      // 如果所有方法都失败，显示轮胎名称供手动复制
+      toast({
+        title: "无法自动复制",
+        description: tireName,
+        duration: 4000,
+      });
+    }
+  };
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}/?${encodePreferences(preferences)}`;
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: document.title, url });
+      } else {
+        await copyText(url);
+        toast({
+          description: "已复制分享链接",
+          duration: 2000,
+        });
+      }
+
+      // 上报 GA 事件：分享推荐结果
+      if (typeof window !== 'undefined' && window.gtag) {
+        window.gtag('event', 'share_result', {
+          event_category: 'User Action',
+          event_label: url,
+        });
+      }
+    } catch (err) {
+      // 用户取消系统分享面板时不提示
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      toast({
+        title: "无法自动复制",
+        description: url,
+        duration: 4000,
+      });
+    }
+  };
+
+  const wetOptions = [
+    { value: "very", label: "非常在意" },
+    { value: "normal", label: "一般" },
+    { value: "not", label: "不在意" },
+  ];
+
+  const widthOptions = [
+    { value: "28", label: "默认 28mm" },
+    { value: "wider", label: "更宽（30/32）" },
+  ];
+
+  const speedOptions = [
+    { value: "recreational", label: "休闲（~25km/h）" },
+    { value: "training", label: "训练（~30km/h）" },
+    { value: "racing", label: "比赛（~38km/h）" },
+    { value: "time-trial", label: "计时赛（45km/h+）" },
+  ];
+
+  const setupOptions = [
+    { value: "any", label: "不限" },
+    { value: "tubeless", label: "真空胎" },
+    { value: "clincher-butyl", label: "开口胎 + 丁基内胎" },
+    { value: "clincher-light", label: "开口胎 + 乳胶/TPU 内胎" },
+    { value: "tubular", label: "管胎" },
+  ];
+
+  const budgetOptions: { value: number | null; label: string }[] = [
+    { value: null, label: "不限" },
+    { value: 200, label: "¥200 以内" },
+    { value: 300, label: "¥300 以内" },
+    { value: 400, label: "¥400 以内" },
+    { value: 500, label: "¥500 以内" },
+  ];
+
+  const systemWeightOptions: { value: number | null; label: string }[] = [
+    { value: null, label: "不确定" },
+    { value: 65, label: "~65kg" },
+    { value: 80, label: "~80kg" },
+    { value: 95, label: "~95kg" },
+    { value: 110, label: "110kg+" },
+  ];
+
+  const rimWidthOptions: { value: number | null; label: string }[] = [
+    { value: null, label: "不确定" },
+    { value: 17, label: "17mm" },
+    { value: 19, label: "19mm" },
+    { value: 21, label: "21mm" },
+    { value: 23, label: "23mm" },
+    { value: 25, label: "25mm" },
+  ];
+
+  const pressureOptions = [
+    { value: "firm", label: "偏高（传统打法）" },
+    { value: "balanced", label: "按体重推荐" },
+    { value: "supple", label: "偏低（舒适/抓地）" },
+  ];
+
+  return (
+    <div className="min-h-screen bg-[#f7f7f8]">
+      {/* Header - 深色顶部条 */}
+      <SiteHeader onLogoClick={handleLogoClick}>
+        {showResults && (
+          <Button 
+            onClick={handleReset}
+            size="sm"
+            className="bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-lg h-9 px-4"
+          >
+            <RotateCcw className="mr-1.5 h-4 w-4" />
+            重新选择
+          </Button>
+        )}
+      </SiteHeader>
+
+      {/* Hero 区 */}
+      <section className="bg-gradient-to-b from-[#fafafa] to-[#f7f7f8] border-b py-12">
+        <div className="container mx-auto px-4 max-w-[860px]">
+          <div>
+            <h1 className="text-4xl md:text-5xl font-extrabold text-foreground tracking-tight leading-tight mb-3">
+              公路车轮胎购买指南
+            </h1>
+            <p className="text-base text-muted-foreground font-normal">
+              用公开测试数据，快速选出更适合你的轮胎
+            </p>
+            <p className="mt-2 text-[11px] text-muted-foreground">
+              build: {BUILD_TAG}
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <main className="container mx-auto px-4 py-12 max-w-[860px]">
+        {!showResults ? (
+          /* 输入区域 */
+          <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+            <div className="p-8 md:p-10 space-y-10">
+              {/* Q1 */}
+              <div className="space-y-4">
+                <h3 className="text-base font-bold text-foreground">
+                  Q1：你更在意湿地防滑性吗？
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {wetOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setWetPref(option.value as WetPreference)}
+                      className={`px-5 py-4 rounded-xl font-semibold text-sm transition-all border-2 ${
+                        wetPref === option.value
+                          ? "bg-primary text-primary-foreground border-primary shadow-md"
+                          : "bg-white text-foreground border-[#e5e7eb] hover:border-primary/40 hover:shadow-sm"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Q2 */}
+              <div className="space-y-4">
+                <h3 className="text-base font-bold text-foreground">
+                  Q2：你希望胎宽偏好？
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {widthOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setWidthPref(option.value as WidthPreference)}
+                      className={`px-5 py-4 rounded-xl font-semibold text-sm transition-all border-2 ${
+                        widthPref === option.value
+                          ? "bg-primary text-primary-foreground border-primary shadow-md"
+                          : "bg-white text-foreground border-[#e5e7eb] hover:border-primary/40 hover:shadow-sm"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Q3 */}
+              <div className="space-y-4">
+                <h3 className="text-base font-bold text-foreground">
+                  Q3：你通常的骑行速度？
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {speedOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setSpeedPref(option.value as SpeedPreference)}
+                      className={`px-5 py-4 rounded-xl font-semibold text-sm transition-all border-2 ${
+                        speedPref === option.value
+                          ? "bg-primary text-primary-foreground border-primary shadow-md"
+                          : "bg-white text-foreground border-[#e5e7eb] hover:border-primary/40 hover:shadow-sm"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Q4 */}
+              <div className="space-y-4">
+                <h3 className="text-base font-bold text-foreground">
+                  Q4：你的安装方式？
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {setupOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setSetupPref(option.value as SetupPreference)}
+                      className={`px-5 py-4 rounded-xl font-semibold text-sm transition-all border-2 ${
+                        setupPref === option.value
+                          ? "bg-primary text-primary-foreground border-primary shadow-md"
+                          : "bg-white text-foreground border-[#e5e7eb] hover:border-primary/40 hover:shadow-sm"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Q5 */}
+              <div className="space-y-4">
+                <h3 className="text-base font-bold text-foreground">
+                  Q5：单条轮胎预算？
+                </h3>
+                <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                  {budgetOptions.map((option) => (
+                    <button
+                      key={option.label}
+                      onClick={() => setBudget(option.value)}
+                      className={`px-5 py-4 rounded-xl font-semibold text-sm transition-all border-2 ${
+                        budget === option.value
+                          ? "bg-primary text-primary-foreground border-primary shadow-md"
+                          : "bg-white text-foreground border-[#e5e7eb] hover:border-primary/40 hover:shadow-sm"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id="sort-value"
+                    checked={sortMode === "value"}
+                    onCheckedChange={(checked) => setSortMode(checked ? "value" : "score")}
+                  />
+                  <Label htmlFor="sort-value" className="text-sm text-foreground">
+                    性价比优先（按每 ¥100 的性能分排序）
+                  </Label>
+                </div>
+                {(budget != null || sortMode === "value") && (
+                  <p className="text-xs text-muted-foreground">
+                    价格未知的轮胎无法判断是否在预算内，将不参与推荐
+                  </p>
+                )}
+              </div>
+
+              {/* Q6 */}
+              <div className="space-y-4">
+                <h3 className="text-base font-bold text-foreground">
+                  Q6：骑手 + 整车重量？
+                </h3>
+                <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                  {systemWeightOptions.map((option) => (
+                    <button
+                      key={option.label}
+                      onClick={() => setSystemWeightKg(option.value)}
+                      className={`px-5 py-4 rounded-xl font-semibold text-sm transition-all border-2 ${
+                        systemWeightKg === option.value
+                          ? "bg-primary text-primary-foreground border-primary shadow-md"
+                          : "bg-white text-foreground border-[#e5e7eb] hover:border-primary/40 hover:shadow-sm"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Q7 */}
+              <div className="space-y-4">
+                <h3 className="text-base font-bold text-foreground">
+                  Q7：轮圈内宽？
+                </h3>
+                <div className="grid grid-cols-3 sm:grid-cols-6 gap-3">
+                  {rimWidthOptions.map((option) => (
+                    <button
+                      key={option.label}
+                      onClick={() => setRimWidthMm(option.value)}
+                      className={`px-3 py-4 rounded-xl font-semibold text-sm transition-all border-2 ${
+                        rimWidthMm === option.value
+                          ? "bg-primary text-primary-foreground border-primary shadow-md"
+                          : "bg-white text-foreground border-[#e5e7eb] hover:border-primary/40 hover:shadow-sm"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Q8 */}
+              <div className="space-y-4">
+                <h3 className="text-base font-bold text-foreground">
+                  Q8：你的胎压习惯？
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {pressureOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setPressureStyle(option.value as PressureStyle)}
+                      className={`px-5 py-4 rounded-xl font-semibold text-sm transition-all border-2 ${
+                        pressureStyle === option.value
+                          ? "bg-primary text-primary-foreground border-primary shadow-md"
+                          : "bg-white text-foreground border-[#e5e7eb] hover:border-primary/40 hover:shadow-sm"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  宽胎通常打更低的胎压，滚阻会按你的重量、轮圈内宽和胎压习惯估算后再比较
+                </p>
+              </div>
+
+              {/* Q9 */}
+              <div className="space-y-4">
+                <h3 className="text-base font-bold text-foreground">
+                  Q9：车架最大能装多宽的轮胎？
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      inputMode="decimal"
+                      min={20}
+                      step="0.5"
+                      placeholder="不确定可留空"
+                      value={frameClearanceMm ?? ""}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        setFrameClearanceMm(e.target.value !== "" && value > 0 ? value : null);
+                        setFramePresetId(null);
+                      }}
+                      className="h-12"
+                      aria-label="车架最大胎宽（mm）"
+                    />
+                    <span className="text-sm text-muted-foreground">mm</span>
+                  </div>
+                  <Select
+                    value={framePresetId ?? ""}
+                    onValueChange={(id) => {
+                      const frame = FRAME_PRESETS.find((f) => f.id === id);
+                      if (!frame) return;
+                      setFramePresetId(frame.id);
+                      setFrameClearanceMm(frame.clearanceMm);
+                    }}
+                  >
+                    <SelectTrigger className="h-12">
+                      <SelectValue placeholder="或从常见车架中选择" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FRAME_PRESETS.map((frame) => (
+                        <SelectItem key={frame.id} value={frame.id}>
+                          {frame.name}（{frame.clearanceMm}mm）
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  按实测胎宽和你的轮圈内宽估算装胎宽度：超出车架最大胎宽的轮胎不参与推荐，余量不足 {CLEARANCE_TIGHT_MM}mm 的会标出
+                </p>
+              </div>
+
+              {/* 生成按钮 */}
+              <Button
+                onClick={() => handleGenerate(preferences)}
+                disabled={loading}
+                className="w-full h-14 text-base font-bold rounded-xl shadow-md hover:shadow-lg transition-all"
+                size="lg"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    正在分析数据...
+                  </>
+                ) : (
+                  <>
+                    生成推荐
+                    <ChevronRight className="ml-2 h-5 w-5" />
+                  </>
+                )}
+              </Button>
+            </div>
+          </Card>
+        ) : (
+          /* 结果区域 */
+          <div ref={resultsRef} className="space-y-6 animate-in fade-in duration-500">
+            <div>
+              <h2 className="text-2xl font-extrabold text-foreground mb-2">
+                为你推荐 Top 3 轮胎
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                基于测试数据与你的偏好计算
+              </p>
+            </div>
+
+            {/* 自定义权重 */}
+            <WeightSliders
+              weights={resolveWeights(preferences)}
+              onChange={setCustomWeights}
+              onReset={() => setCustomWeights(null)}
+              showDurability={hasDurabilityData}
+            />
+
+            {/* 轮胎卡片 */}
+            <div className="space-y-5">
+              {results.map((tire, index) => (
+                <Card
+                  key={tire.id}
+                  className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white hover:shadow-md transition-all duration-300"
+                >
+                  <div className="p-6 md:p-7">
+                    <div className="flex flex-col gap-5 sm:flex-row sm:items-start">
+                      {/* 排名徽章 - 绿色实心 */}
+                      <div className="flex-shrink-0 w-11 h-11 rounded-xl bg-primary flex items-center justify-center shadow-sm">
+                        <span className="text-white font-extrabold text-lg">
+                          {index + 1}
+                        </span>
+                      </div>
+
+                      <div className="flex-1 space-y-5 min-w-0">
+                        {/* 标题行 */}
+                        <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                          <div className="min-w-0">
+                            <h3 className="w-full text-xl font-bold text-foreground leading-tight mb-2 break-words whitespace-normal [overflow-wrap:anywhere]">
+                              <Link to={`/tires/${tire.id}`} className="hover:text-primary">
+                                {tire.brand} {tire.model}
+                              </Link>
+                            </h3>
+                            <div className="flex flex-wrap gap-2">
+                              <span className="inline-block px-3 py-1 bg-[#dcfce7] text-[#166534] text-xs font-bold rounded-full">
+                                {tire.width_spec_mm}mm
+                              </span>
+                              <span
+                                className={`inline-block px-3 py-1 text-xs font-bold rounded-full ${
+                                  tire.constructionFit === "partial"
+                                    ? "bg-amber-100 text-amber-900"
+                                    : "bg-[#f3f4f6] text-[#374151]"
+                                }`}
+                                title={tire.constructionFit === "partial" ? "测试条件与你的安装方式不完全一致" : undefined}
+                              >
+                                {formatConstruction(tire.construction)}
+                              </span>
+                              {tire.clearanceFit === "tight" && tire.mountedWidthMm != null && (
+                                <span
+                                  className="inline-block px-3 py-1 bg-amber-100 text-amber-900 text-xs font-bold rounded-full"
+                                  title={`车架最大胎宽 ${frameClearanceMm}mm`}
+                                >
+                                  装上约 {tire.mountedWidthMm.toFixed(1)}mm，车架间隙较紧
+                                </span>
+                              )}
+                              {tire.clearanceFit === "unknown" && tire.widthWarning && tire.mountedWidthMm != null && (
+                                <span
+                                  className="inline-block px-3 py-1 bg-amber-100 text-amber-900 text-xs font-bold rounded-full"
+                                  title="装在你的轮圈上会明显宽于标称胎宽"
+                                >
+                                  装上约 {tire.mountedWidthMm.toFixed(1)}mm，注意车架间隙
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+
+                        {/* 性能指标 - 评测风格 */}
+                        <div className="space-y-4">
+                          {/* Wet Grip */}
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm font-semibold text-foreground">
+                                Wet Grip 湿地抓地
+                              </span>
+                              <span className="text-sm font-bold text-primary">
+                                {tire.wg.toFixed(1)}
+                              </span>
+                            </div>
+                            <div className="w-full sm:w-[60%]">
+                              <div className="h-1.5 bg-[#e5e7eb] rounded-full overflow-hidden">
+                                <div 
+                                  className="h-full bg-primary rounded-full transition-all"
+                                  style={{ width: `${tire.breakdown.metrics.wg.norm * 100}%` }}
+                                />
+                              </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              抓地优于 {Math.round(tire.wgPercentile)}% 的已测{peerGroupLabel(tire)}轮胎
+                            </p>
+                          </div>
+
+                          {/* RR @ 目标速度 */}
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm font-semibold text-foreground">
+                                RR @{Math.round(tire.rrSpeedKmh)}km/h 滚阻
+                              </span>
+                              <span className="text-sm font-bold text-primary">
+                                {tire.rr.toFixed(1)}W
+                              </span>
+                            </div>
+                            <div className="w-full sm:w-[60%]">
+                              <div className="h-1.5 bg-[#e5e7eb] rounded-full overflow-hidden">
+                                <div 
+                                  className="h-full bg-primary rounded-full transition-all"
+                                  style={{ width: `${tire.breakdown.metrics.rr.norm * 100}%` }}
+                                />
+                              </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              比 {Math.round(tire.rrPercentile)}% 的已测{peerGroupLabel(tire)}轮胎更快（滚阻越低越好）
+                            </p>
+                            {tire.pressureBar != null && (
+                              <p className="text-xs text-muted-foreground">
+                                按后轮约 {tire.pressureBar.toFixed(1)} bar（{Math.round(tire.pressureBar * BAR_TO_PSI)} psi）估算
+                              </p>
+                            )}
+                          </div>
+                        </div>
+
+                        {/* 适合原因 - AI 生成，未到达前显示占位 */}
+                        <div className="bg-[#f9fafb] px-4 py-3 rounded-lg border border-[#e5e7eb] min-w-0">
+                          {pendingExplanations.includes(tire.id) ? (
+                            <div className="space-y-2 py-0.5" aria-label="正在生成推荐理由">
+                              <Skeleton className="h-3 w-full" />
+                              <Skeleton className="h-3 w-2/3" />
+                            </div>
+                          ) : (
+                            <p className="text-xs text-muted-foreground leading-relaxed break-words whitespace-normal [overflow-wrap:anywhere]">
+                              {tire.explanation}
+                            </p>
+                          )}
+                        </div>
+
+                        {/* 底部信息条 - 电商风格 */}
+                        <div className="flex flex-col gap-2 pt-3 border-t border-[#e5e7eb] sm:flex-row sm:items-center sm:justify-between">
+                          <div className="flex flex-wrap items-baseline gap-2 min-w-0">
+                            {tire.priceStatus === "known" ? (
+                              <span className="text-2xl font-extrabold text-primary">
+                                ¥{tire.price}
+                              </span>
+                            ) : (
+                              <span className="text-sm font-semibold text-muted-foreground">
+                                价格未知
+                              </span>
+                            )}
+                            {tire.priceStatus === "known" && (
+                              <span className="text-xs text-muted-foreground">
+                                {PRICE_MODE === "median" ? "近期中位价，" : ""}
+                                {tire.price_updated_on ? `更新于 ${tire.price_updated_on}` : "更新日期未知"}
+                              </span>
+                            )}
+                            {sortMode === "value" && tire.valueScore != null && (
+                              <span className="text-xs font-semibold text-foreground">
+                                每 ¥100 性能分 {tire.valueScore.toFixed(1)}
+                              </span>
+                            )}
+                            {tire.source_site && (
+                              <span className="text-xs text-muted-foreground break-all">
+                                来源：{tire.source_site}
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleCopy(tire)}
+                              className="h-8 px-3 text-xs font-medium rounded-lg hover:bg-secondary"
+                            >
+                              {copiedId === tire.id ? (
+                                <>
+                                  <Check className="mr-1.5 h-3.5 w-3.5 text-primary" />
+                                  已复制
+                                </>
+                              ) : (
+                                <>
+                                  <Copy className="mr-1.5 h-3.5 w-3.5" />
+                                  复制名称
+                                </>
+                              )}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={handleShare}
+                              className="h-8 px-3 text-xs font-medium rounded-lg hover:bg-secondary"
+                            >
+                              <Share2 className="mr-1.5 h-3.5 w-3.5" />
+                              分享结果
+                            </Button>
+                          </div>
+                        </div>
+
+                        {/* 单条轮胎反馈 */}
+                        <TireFeedback tireId={tire.id} rank={index + 1} answers={feedbackAnswers} />
+                      </div>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+
+              {results.length === 0 && (
+                <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl bg-white">
+                  <div className="p-12 text-center text-muted-foreground">
+                    暂无符合条件的轮胎数据
+                  </div>
+                </Card>
+              )}
+            </div>
+
+            {/* 横向对比 & 完整排名 */}
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {results.length >= 2 && (
+                  <Button asChild variant="outline" className="w-full h-11 rounded-xl font-semibold">
+                    <Link to={`/compare?ids=${results.map((t) => t.id).join(",")}`}>
+                      横向对比这 {results.length} 款
+                    </Link>
+                  </Button>
+                )}
+                {ranking.length > results.length && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowExplorer(!showExplorer)}
+                    className="w-full h-11 rounded-xl font-semibold"
+                  >
+                    {showExplorer ? "收起完整排名" : `查看全部 ${ranking.length} 条排名`}
+                  </Button>
+                )}
+              </div>
+              {showExplorer && (
+                <ResultsExplorer ranking={ranking} topIds={results.map((t) => t.id)} />
+              )}
+            </div>
+
+            {/* 免责声明 */}
+            <div className="mt-8 p-5 bg-amber-50 border border-amber-200 rounded-xl">
+              <p className="text-xs text-amber-900 leading-relaxed">
+                <strong className="font-bold">免责声明：</strong>
+                推荐基于公开测试数据与权重计算，仅供决策参考。胎压、装胎宽度与对应的滚阻均为按经验公式估算，实际体验仍受路况、胎压计误差等影响。
+              </p>
+            </div>
+
+
+            {/* 反馈模块 */}
+            <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white mt-6">
+              <div className="p-6 md:p-8">
+                <h3 className="text-base font-bold text-foreground mb-4">
+                  这次推荐对你有帮助吗？
+                </h3>
+                <div className="flex flex-col sm:flex-row items-stretch justify-center gap-3">
+                  {HELPFULNESS_VALUES.map((value) => (
+                    <button
+                      key={value}
+                      onClick={() => handleFeedback(value)}
+                      className={`px-5 py-3.5 rounded-xl font-semibold text-sm transition-all border-2 ${
+                        feedback === value
+                          ? "bg-primary text-primary-foreground border-primary shadow-md"
+                          : "bg-white text-foreground border-[#e5e7eb] hover:border-primary/40 hover:shadow-sm"
+                      }`}
+                    >
+                      {HELPFULNESS_LABELS[value]}
+                    </button>
+                  ))}
+                </div>
+                {feedback && (
+                  <p className="mt-4 text-sm text-primary font-medium bg-primary/5 px-4 py-3 rounded-lg">
+                    感谢你的反馈！这将帮助我们改进推荐算法。
+                  </p>
+                )}
+              </div>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
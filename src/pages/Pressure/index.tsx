@@ -0,0 +1,274 @@
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import SiteHeader from "@/components/layout/SiteHeader";
+import { useTires } from "@/hooks/use-tires";
+import {
+  BAR_TO_PSI,
+  MAX_PRESSURE_BAR,
+  MIN_PRESSURE_BAR,
+  PRESSURE_K,
+  PRESSURE_WIDTH_EXPONENT,
+  SURFACE_FACTOR,
+  TUBELESS_FACTOR,
+  calculatePressure,
+  parseConstruction,
+  type RoadSurface,
+  type Tire,
+} from "@/lib/recommendation";
+
+/** Select 不允许空值，用该值表示未选择轮胎 */
+const NO_TIRE = "none";
+
+const DEFAULT_FRONT_SHARE = 45;
+const MIN_FRONT_SHARE = 35;
+const MAX_FRONT_SHARE = 50;
+
+const SURFACE_OPTIONS: { value: RoadSurface; label: string }[] = [
+  { value: "smooth", label: "平整铺装路" },
+  { value: "rough", label: "粗糙 / 破损路面" },
+  { value: "gravel", label: "碎石 / 土路" },
+];
+
+const SETUP_OPTIONS = [
+  { value: false, label: "有内胎" },
+  { value: true, label: "真空胎" },
+];
+
+const optionClass = (active: boolean) =>
+  `px-4 py-3 rounded-xl font-semibold text-sm transition-all border-2 ${
+    active
+      ? "bg-primary text-primary-foreground border-primary shadow-md"
+      : "bg-white text-foreground border-[#e5e7eb] hover:border-primary/40 hover:shadow-sm"
+  }`;
+
+const tireLabel = (tire: Tire) => `${tire.brand} ${tire.model} ${tire.width_spec_mm ?? "?"}mm`;
+
+/** 输入框为空或不是正数时返回 null */
+const positive = (value: string) => {
+  const number = Number(value);
+  return value.trim() !== "" && Number.isFinite(number) && number > 0 ? number : null;
+};
+
+// 胎压计算器：/pressure，可带 ?tire=<id> 预选轮胎
+export default function Pressure() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: tires = [] } = useTires();
+  const [riderWeight, setRiderWeight] = useState("70");
+  const [bikeWeight, setBikeWeight] = useState("8");
+  const [frontShare, setFrontShare] = useState(DEFAULT_FRONT_SHARE);
+  const [width, setWidth] = useState("28");
+  const [tubeless, setTubeless] = useState(false);
+  const [surface, setSurface] = useState<RoadSurface>("smooth");
+
+  const tireId = searchParams.get("tire");
+  const sortedTires = useMemo(
+    () => [...tires].sort((a, b) => tireLabel(a).localeCompare(tireLabel(b))),
+    [tires]
+  );
+  const selected = tires.find((t) => t.id === tireId) ?? null;
+
+  // 选中轮胎时带入实测胎宽（缺失时用标称胎宽）与安装方式
+  useEffect(() => {
+    if (!selected) return;
+    const tireWidth = selected.width_measured_mm ?? selected.width_spec_mm;
+    if (tireWidth != null) setWidth(String(tireWidth));
+    setTubeless(parseConstruction(selected).type === "tubeless");
+  }, [selected]);
+
+  useEffect(() => {
+    document.title = "胎压计算器 | Iron Legs";
+  }, []);
+
+  const rider = positive(riderWeight);
+  const bike = positive(bikeWeight);
+  const widthMm = positive(width);
+  const result =
+    rider != null && bike != null && widthMm != null
+      ? calculatePressure({
+          riderWeightKg: rider,
+          bikeWeightKg: bike,
+          frontLoadShare: frontShare / 100,
+          widthMm,
+          tubeless,
+          surface,
+        })
+      : null;
+
+  const selectTire = (id: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (id === NO_TIRE) next.delete("tire");
+    else next.set("tire", id);
+    setSearchParams(next, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-[#f7f7f8]">
+      <SiteHeader />
+
+      <main className="container mx-auto px-4 py-12 max-w-[860px] space-y-6">
+        <div>
+          <h1 className="text-2xl font-extrabold text-foreground mb-2">胎压计算器</h1>
+          <p className="text-sm text-muted-foreground">
+            按重量、胎宽、安装方式和路面估算前后轮胎压，作为调整的起点
+          </p>
+        </div>
+
+        <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+          <div className="p-6 md:p-8 space-y-6">
+            <div className="space-y-2">
+              <Label>从轮胎库选择（可选）</Label>
+              <Select value={selected?.id ?? NO_TIRE} onValueChange={selectTire}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TIRE}>不选择，手动填写胎宽</SelectItem>
+                  {sortedTires.map((tire) => (
+                    <SelectItem key={tire.id} value={tire.id}>
+                      {tireLabel(tire)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rider-weight">骑手体重（kg）</Label>
+                <Input
+                  id="rider-weight"
+                  type="number"
+                  inputMode="decimal"
+                  value={riderWeight}
+                  onChange={(e) => setRiderWeight(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bike-weight">整车 + 装备（kg）</Label>
+                <Input
+                  id="bike-weight"
+                  type="number"
+                  inputMode="decimal"
+                  value={bikeWeight}
+                  onChange={(e) => setBikeWeight(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tire-width">实测胎宽（mm）</Label>
+                <Input
+                  id="tire-width"
+                  type="number"
+                  inputMode="decimal"
+                  step="0.1"
+                  value={width}
+                  onChange={(e) => setWidth(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>前 / 后轮重量分配</Label>
+                <span className="text-sm font-bold text-primary">
+                  前 {frontShare}% / 后 {100 - frontShare}%
+                </span>
+              </div>
+              <Slider
+                min={MIN_FRONT_SHARE}
+                max={MAX_FRONT_SHARE}
+                step={1}
+                value={[frontShare]}
+                onValueChange={([value]) => setFrontShare(value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                公路车骑行姿势下通常为前 40–45%；越趴越靠前
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <Label>安装方式</Label>
+              <div className="grid grid-cols-2 gap-3">
+                {SETUP_OPTIONS.map((option) => (
+                  <button
+                    key={option.label}
+                    onClick={() => setTubeless(option.value)}
+                    className={optionClass(tubeless === option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label>路面</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {SURFACE_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setSurface(option.value)}
+                    className={optionClass(surface === option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+          <div className="p-6 md:p-8">
+            {result ? (
+              <div className="grid grid-cols-2 gap-4">
+                {([
+                  ["前轮", result.front],
+                  ["后轮", result.rear],
+                ] as const).map(([label, bar]) => (
+                  <div key={label} className="rounded-xl bg-[#f9fafb] border border-[#e5e7eb] p-5 text-center">
+                    <p className="text-sm font-semibold text-muted-foreground mb-2">{label}</p>
+                    <p className="text-3xl font-extrabold text-primary">
+                      {Math.round(bar * BAR_TO_PSI)} <span className="text-base font-bold">psi</span>
+                    </p>
+                    <p className="text-sm text-foreground mt-1">{bar.toFixed(2)} bar</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-sm text-muted-foreground">请填写体重、整车重量与胎宽</p>
+            )}
+          </div>
+        </Card>
+
+        {/* 计算公式 */}
+        <div className="p-5 bg-[#f9fafb] border border-[#e5e7eb] rounded-xl space-y-2 text-xs text-muted-foreground leading-relaxed">
+          <p className="font-bold text-foreground">计算方法</p>
+          <p>1. 单轮负重 = (骑手体重 + 整车重量) × 该轮重量分配比例。</p>
+          <p>
+            2. 胎压（bar）= {PRESSURE_K} × 单轮负重（kg）÷ 胎宽（mm）^{PRESSURE_WIDTH_EXPONENT}
+            ，对应约 15% 胎体下沉量的经验拟合（Frank Berto 的轮胎下沉量测试）。
+          </p>
+          <p>
+            3. 真空胎 ×{TUBELESS_FACTOR}；粗糙路面 ×{SURFACE_FACTOR.rough}，碎石 / 土路 ×
+            {SURFACE_FACTOR.gravel}。
+          </p>
+          <p>
+            4. 结果限制在 {MIN_PRESSURE_BAR}–{MAX_PRESSURE_BAR} bar，psi = bar × {BAR_TO_PSI}。
+          </p>
+          <p>胎宽请用装在自己轮圈上的实测值；结果不能超过轮胎和轮圈标注的最高胎压。</p>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+import { Line, LineChart, YAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  PRICE_MEDIAN_WINDOW_DAYS,
+  medianPrice,
+  priceHistory,
+  type PriceObservation,
+} from "@/lib/recommendation";
+
+const chartConfig: ChartConfig = {
+  price: { label: "价格（¥）", color: "#16a34a" },
+};
+
+interface PriceHistoryProps {
+  prices: PriceObservation[];
+}
+
+// 价格走势：最近更新时间、中位价与迷你走势图
+export default function PriceHistory({ prices }: PriceHistoryProps) {
+  const history = useMemo(() => priceHistory(prices), [prices]);
+  // 走势图的提示里同样标出日期未知的观测
+  const chartData = useMemo(
+    () => history.map((p) => ({ ...p, observed_on: p.observed_on ?? "日期未知" })),
+    [history]
+  );
+  const median = useMemo(() => medianPrice(prices), [prices]);
+
+  if (history.length === 0) return null;
+
+  const latest = history[history.length - 1];
+  const lowest = Math.min(...history.map((p) => p.price));
+
+  return (
+    <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+      <div className="p-6 md:p-7 space-y-4">
+        <div className="flex items-baseline justify-between gap-3">
+          <h2 className="text-base font-bold text-foreground">价格走势</h2>
+          <span className="text-xs text-muted-foreground">
+            最近更新：{latest.observed_on ?? "日期未知"}
+            {latest.channel && ` · ${latest.channel}`}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap gap-6 text-sm">
+          <div>
+            <p className="text-xs text-muted-foreground">最新</p>
+            <p className="text-xl font-extrabold text-primary">¥{latest.price}</p>
+          </div>
+          {median != null && (
+            <div>
+              <p className="text-xs text-muted-foreground">近 {PRICE_MEDIAN_WINDOW_DAYS} 天中位</p>
+              <p className="text-xl font-extrabold text-foreground">¥{Math.round(median)}</p>
+            </div>
+          )}
+          <div>
+            <p className="text-xs text-muted-foreground">历史最低</p>
+            <p className="text-xl font-extrabold text-foreground">¥{lowest}</p>
+          </div>
+        </div>
+
+        {history.length > 1 && (
+          <ChartContainer config={chartConfig} className="h-[80px] w-full">
+            <LineChart data={chartData} margin={{ top: 4, bottom: 4, left: 4, right: 4 }}>
+              <YAxis hide domain={["dataMin", "dataMax"]} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelKey="observed_on" />}
+              />
+              <Line
+                dataKey="price"
+                type="monotone"
+                stroke="var(--color-price)"
+                strokeWidth={2}
+                dot={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        )}
+      </div>
+    </Card>
+  );
+}
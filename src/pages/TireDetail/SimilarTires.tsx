@@ -0,0 +1,43 @@
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import type { TireWithScore } from "@/lib/recommendation";
+
+interface SimilarTiresProps {
+  tireId: string;
+  similar: TireWithScore[];
+}
+
+// 相似轮胎：同胎宽附近、湿地与滚阻表现最接近
+export default function SimilarTires({ tireId, similar }: SimilarTiresProps) {
+  if (similar.length === 0) return null;
+
+  return (
+    <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+      <div className="p-6 md:p-7 space-y-4">
+        <h2 className="text-base font-bold text-foreground">相似轮胎</h2>
+        <ul className="divide-y divide-[#e5e7eb]">
+          {similar.map((tire) => (
+            <li key={tire.id} className="flex items-center justify-between gap-3 py-3">
+              <Link
+                to={`/tires/${tire.id}`}
+                className="min-w-0 text-sm font-semibold text-foreground hover:text-primary break-words"
+              >
+                {tire.brand} {tire.model} {tire.width_spec_mm}mm
+              </Link>
+              <div className="flex flex-shrink-0 items-center gap-3 text-xs text-muted-foreground">
+                <span>湿地 {tire.wg.toFixed(1)}</span>
+                <span>滚阻 {tire.rr.toFixed(1)}W</span>
+                <Link
+                  to={`/compare?ids=${tireId},${tire.id}`}
+                  className="font-semibold text-primary hover:underline"
+                >
+                  对比
+                </Link>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DEFAULT_PREFERENCES,
+  RR_COLUMN_SPEEDS,
+  rankTires,
+  sortTestResults,
+  withTestResult,
+  type SourcedTestResult,
+  type Tire,
+} from "@/lib/recommendation";
+
+interface TireHistoryProps {
+  tire: Tire;
+  /** 全部轮胎，用于同系列版本与历史得分 */
+  tires: Tire[];
+  results: SourcedTestResult[];
+}
+
+const formatValue = (value: number | null, unit = "") => (value == null ? "—" : `${value}${unit}`);
+
+// 测试历史与同系列的其他版本
+export default function TireHistory({ tire, tires, results }: TireHistoryProps) {
+  const variants = useMemo(
+    () =>
+      tire.family_id
+        ? tires.filter((t) => t.family_id === tire.family_id && t.id !== tire.id)
+        : [],
+    [tire, tires]
+  );
+
+  // 每次结果代入当前数据集，在中性偏好下的得分，便于看出复测带来的变化
+  const history = useMemo(() => {
+    const others = tires.filter((t) => t.id !== tire.id);
+    return sortTestResults(results).map((result) => {
+      const ranked = rankTires([...others, withTestResult(tire, result)], DEFAULT_PREFERENCES);
+      return { result, score: ranked.find((t) => t.id === tire.id)?.score ?? null };
+    });
+  }, [tire, tires, results]);
+
+  if (history.length < 2 && variants.length === 0) return null;
+
+  return (
+    <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+      <div className="p-6 md:p-7 space-y-4">
+        {history.length >= 2 && (
+          <>
+            <h2 className="text-base font-bold text-foreground">测试历史</h2>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>测试日期</TableHead>
+                  <TableHead>来源</TableHead>
+                  <TableHead>湿地中心</TableHead>
+                  <TableHead>湿地边缘</TableHead>
+                  {RR_COLUMN_SPEEDS.map(({ column, speedKmh }) => (
+                    <TableHead key={column} className="whitespace-nowrap">
+                      RR {speedKmh}km/h
+                    </TableHead>
+                  ))}
+                  <TableHead>得分</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map(({ result, score }, index) => (
+                  <TableRow key={result.id} className={index === 0 ? "font-semibold" : undefined}>
+                    <TableCell className="whitespace-nowrap">
+                      {result.tested_on ?? "日期未知"}
+                      {index === 0 && <span className="ml-1 text-xs text-primary">当前</span>}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {result.source?.url ? (
+                        <a
+                          href={result.source.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="hover:text-primary hover:underline"
+                        >
+                          {result.source.name}
+                        </a>
+                      ) : (
+                        result.source?.name ?? result.source_site ?? "—"
+                      )}
+                    </TableCell>
+                    <TableCell className="tabular-nums">{formatValue(result.wet_center)}</TableCell>
+                    <TableCell className="tabular-nums">{formatValue(result.wet_edge)}</TableCell>
+                    {RR_COLUMN_SPEEDS.map(({ column }) => (
+                      <TableCell key={column} className="tabular-nums">
+                        {formatValue(result[column], "W")}
+                      </TableCell>
+                    ))}
+                    <TableCell className="tabular-nums">{score != null ? score.toFixed(1) : "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+
+        {variants.length > 0 && (
+          <>
+            <h2 className="text-base font-bold text-foreground">同系列其他版本</h2>
+            <ul className="divide-y divide-[#e5e7eb]">
+              {variants.map((variant) => (
+                <li key={variant.id} className="flex items-center justify-between gap-3 py-3">
+                  <Link
+                    to={`/tires/${variant.id}`}
+                    className="min-w-0 text-sm font-semibold text-foreground hover:text-primary break-words"
+                  >
+                    {variant.brand} {variant.model} {variant.width_spec_mm}mm
+                  </Link>
+                  <div className="flex flex-shrink-0 items-center gap-3 text-xs text-muted-foreground">
+                    {variant.year && <span>{variant.year}</span>}
+                    {variant.retired && <span>已停产</span>}
+                    <Link
+                      to={`/compare?ids=${tire.id},${variant.id}`}
+                      className="font-semibold text-primary hover:underline"
+                    >
+                      对比
+                    </Link>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
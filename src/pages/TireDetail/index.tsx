@@ -0,0 +1,125 @@
+import { useEffect, useMemo } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ChevronRight, Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import SiteHeader from "@/components/layout/SiteHeader";
+import { useTires } from "@/hooks/use-tires";
+import { useTestResults } from "@/hooks/use-test-results";
+import { useTirePrices } from "@/hooks/use-tire-prices";
+import { TIRE_FIELDS, formatTireField } from "@/lib/tire-fields";
+import {
+  findSimilarTires,
+  formatConstruction,
+  parseConstruction,
+  type Tire,
+} from "@/lib/recommendation";
+import SimilarTires from "./SimilarTires";
+import TireHistory from "./TireHistory";
+import PriceHistory from "./PriceHistory";
+
+const widthDelta = (tire: Tire) =>
+  tire.width_measured_mm != null && tire.width_spec_mm != null
+    ? tire.width_measured_mm - tire.width_spec_mm
+    : null;
+
+// 轮胎详情页：/tires/:id，展示全部字段、价格走势、测试历史与相似轮胎
+export default function TireDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { data: tires, isLoading, error } = useTires();
+  const { data: results } = useTestResults(id);
+  const { data: prices } = useTirePrices(id);
+
+  const tire = useMemo(() => (tires || []).find((t) => t.id === id), [tires, id]);
+  const similar = useMemo(
+    () => (tire ? findSimilarTires(tire, tires || []) : []),
+    [tire, tires]
+  );
+
+  useEffect(() => {
+    if (tire) {
+      document.title = `${tire.brand} ${tire.model} ${tire.width_spec_mm ?? ""}mm 测试数据 | Iron Legs`;
+    }
+  }, [tire]);
+
+  const delta = tire ? widthDelta(tire) : null;
+
+  return (
+    <div className="min-h-screen bg-[#f7f7f8]">
+      <SiteHeader />
+
+      <main className="container mx-auto px-4 py-12 max-w-[860px] space-y-6">
+        {!tire ? (
+          <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl bg-white">
+            <div className="p-12 text-center text-muted-foreground">
+              {isLoading ? (
+                <Loader2 className="mx-auto h-6 w-6 animate-spin" />
+              ) : error ? (
+                "加载失败，请稍后重试"
+              ) : (
+                "未找到该轮胎"
+              )}
+            </div>
+          </Card>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-3xl font-extrabold text-foreground leading-tight mb-3 break-words">
+                {tire.brand} {tire.model}
+              </h1>
+              <div className="flex flex-wrap gap-2">
+                <span className="inline-block px-3 py-1 bg-[#dcfce7] text-[#166534] text-xs font-bold rounded-full">
+                  {tire.width_spec_mm}mm
+                </span>
+                <span className="inline-block px-3 py-1 bg-[#f3f4f6] text-[#374151] text-xs font-bold rounded-full">
+                  {formatConstruction(parseConstruction(tire))}
+                </span>
+                {tire.year && (
+                  <span className="inline-block px-3 py-1 bg-[#f3f4f6] text-[#374151] text-xs font-bold rounded-full">
+                    {tire.year}
+                  </span>
+                )}
+                {tire.retired && (
+                  <span className="inline-block px-3 py-1 bg-[#fef3c7] text-[#92400e] text-xs font-bold rounded-full">
+                    已停产
+                  </span>
+                )}
+              </div>
+              {delta != null && (
+                <p className="mt-3 text-sm text-muted-foreground">
+                  实测胎宽 {tire.width_measured_mm}mm，比标称
+                  {delta >= 0 ? `宽 ${delta.toFixed(1)}` : `窄 ${Math.abs(delta).toFixed(1)}`}mm
+                </p>
+              )}
+              <Link
+                to={`/pressure?tire=${tire.id}`}
+                className="mt-3 inline-flex items-center text-sm font-semibold text-primary hover:underline"
+              >
+                计算这条轮胎的胎压
+                <ChevronRight className="h-4 w-4" />
+              </Link>
+            </div>
+
+            <Card className="shadow-sm border border-[#e5e7eb] rounded-2xl overflow-hidden bg-white">
+              <dl className="divide-y divide-[#e5e7eb]">
+                {TIRE_FIELDS.map((field) => (
+                  <div key={field.key} className="flex items-start justify-between gap-4 px-6 py-3">
+                    <dt className="text-sm text-muted-foreground whitespace-nowrap">{field.label}</dt>
+                    <dd className="text-sm font-semibold text-foreground text-right break-all tabular-nums">
+                      {formatTireField(tire, field)}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </Card>
+
+            <PriceHistory prices={prices || []} />
+
+            <TireHistory tire={tire} tires={tires || []} results={results || []} />
+
+            <SimilarTires tireId={tire.id} similar={similar} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,12 @@
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Compare from "./pages/Compare";
+import TireDetail from "./pages/TireDetail";
+import Pressure from "./pages/Pressure";
+import AdminFeedback from "./pages/Admin/Feedback";
+import AdminTires from "./pages/Admin/Tires";
+import AdminDataQuality from "./pages/Admin/DataQuality";
+import AdminGuard from "./components/admin/AdminGuard";
 
 export const routers = [
     {
@@ -7,6 +14,48 @@ export const routers = [
       name: 'home',
       element: <Index />,
     },
+    {
+      path: "/compare",
+      name: 'compare',
+      element: <Compare />,
+    },
+    {
+      path: "/tires/:id",
+      name: 'tire-detail',
+      element: <TireDetail />,
+    },
+    {
+      path: "/pressure",
+      name: 'pressure',
+      element: <Pressure />,
+    },
+    {
+      path: "/admin/feedback",
+      name: 'admin-feedback',
+      element: (
+        <AdminGuard>
+          <AdminFeedback />
+        </AdminGuard>
+      ),
+    },
+    {
+      path: "/admin/tires",
+      name: 'admin-tires',
+      element: (
+        <AdminGuard>
+          <AdminTires />
+        </AdminGuard>
+      ),
+    },
+    {
+      path: "/admin/data-quality",
+      name: 'admin-data-quality',
+      element: (
+        <AdminGuard>
+          <AdminDataQuality />
+        </AdminGuard>
+      ),
+    },
     /* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */
     {
       path: "*",
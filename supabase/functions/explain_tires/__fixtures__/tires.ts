@@ -0,0 +1,25 @@
+import type { ExplainTire } from "../types.ts";
+
+/** 测试用的推荐轮胎，只需覆盖关心的字段 */
+export const makeTire = (id: string, overrides: Partial<ExplainTire> = {}): ExplainTire => ({
+  id,
+  brand: "Brand",
+  model: id,
+  width_spec_mm: 28,
+  tire_type: "TL",
+  wet_center: 40,
+  wet_edge: 38,
+  price: 300,
+  score: 80,
+  wg: 38,
+  rr: 14.5,
+  rrSpeedKmh: 29,
+  pressureBar: 5.2,
+  mountedWidthMm: 28.6,
+  widthWarning: false,
+  clearanceFit: "unknown",
+  widthClass: 28,
+  wgPercentile: 70,
+  rrPercentile: 60,
+  ...overrides,
+});
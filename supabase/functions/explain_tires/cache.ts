@@ -0,0 +1,58 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { ExplainPreferences, ExplainTire } from "./types.ts";
+
+/** 提示词或输出格式变化时递增，使旧缓存失效 */
+const PROMPT_VERSION = "v6";
+
+const CACHE_TTL_DAYS = 30;
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * 缓存键：轮胎 id + 同批推荐的其他轮胎 id（按排名）+ 问卷偏好 + 数据版本。
+ * 理由会与同批轮胎对比，换了同伴就要重新生成；
+ * 数据版本取本胎与同伴参与生成的字段的哈希，测试数据或价格变化后自动失效。
+ */
+export async function cacheKey(
+  tire: ExplainTire,
+  lineup: ExplainTire[],
+  preferences: ExplainPreferences,
+  model: string
+): Promise<string> {
+  const { id, ...data } = tire;
+  const peers = lineup.filter((peer) => peer.id !== id);
+  const version = await sha256(JSON.stringify([data, peers]));
+  const prefs = [preferences.wetPref, preferences.speedPref, preferences.setupPref, preferences.sortMode];
+  return [PROMPT_VERSION, model, id, peers.map((peer) => peer.id).join(","), ...prefs, version].join(":");
+}
+
+export async function readCache(
+  client: SupabaseClient,
+  keys: string[]
+): Promise<Map<string, string>> {
+  const since = new Date(Date.now() - CACHE_TTL_DAYS * 86_400_000).toISOString();
+  const { data, error } = await client
+    .from("explanation_cache")
+    .select("cache_key, explanation")
+    .in("cache_key", keys)
+    .gte("created_at", since);
+  if (error) {
+    console.error("Error reading explanation cache:", error);
+    return new Map();
+  }
+  return new Map(data.map((row) => [row.cache_key as string, row.explanation as string]));
+}
+
+export async function writeCache(
+  client: SupabaseClient,
+  rows: { cache_key: string; tire_id: string; explanation: string; model: string }[]
+): Promise<void> {
+  if (rows.length === 0) return;
+  const { error } = await client
+    .from("explanation_cache")
+    .upsert(rows.map((row) => ({ ...row, created_at: new Date().toISOString() })));
+  if (error) console.error("Error writing explanation cache:", error);
+}
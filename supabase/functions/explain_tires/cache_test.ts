@@ -0,0 +1,35 @@
+import { assertEquals, assertNotEquals } from "jsr:@std/assert";
+import { cacheKey } from "./cache.ts";
+import type { ExplainPreferences } from "./types.ts";
+import { makeTire } from "./__fixtures__/tires.ts";
+
+const preferences: ExplainPreferences = {
+  wetPref: "normal",
+  speedPref: "medium",
+  setupPref: "any",
+  sortMode: "score",
+};
+
+const [a, b, c] = [makeTire("a"), makeTire("b"), makeTire("c")];
+
+Deno.test("cacheKey is stable for the same tire, lineup and preferences", async () => {
+  assertEquals(
+    await cacheKey(a, [a, b, c], preferences, "stub"),
+    await cacheKey(makeTire("a"), [makeTire("a"), makeTire("b"), makeTire("c")], preferences, "stub")
+  );
+});
+
+Deno.test("cacheKey names the tire and its peers in ranking order", async () => {
+  const key = await cacheKey(a, [a, b, c], preferences, "stub");
+  assertEquals(key.split(":").slice(1, 8), ["stub", "a", "b,c", "normal", "medium", "any", "score"]);
+  assertNotEquals(key, await cacheKey(a, [a, c, b], preferences, "stub"));
+  assertNotEquals(key, await cacheKey(a, [a, b], preferences, "stub"));
+});
+
+Deno.test("cacheKey changes with the preferences, the model and the tire data", async () => {
+  const key = await cacheKey(a, [a, b, c], preferences, "stub");
+  assertNotEquals(key, await cacheKey(a, [a, b, c], { ...preferences, wetPref: "very" }, "stub"));
+  assertNotEquals(key, await cacheKey(a, [a, b, c], preferences, "gpt-4o-mini"));
+  assertNotEquals(key, await cacheKey(makeTire("a", { price: 280 }), [a, b, c], preferences, "stub"));
+  assertNotEquals(key, await cacheKey(a, [a, makeTire("b", { rr: 15 }), c], preferences, "stub"));
+});
@@ -0,0 +1,190 @@
+/**
+ * explain_tires：为一批推荐轮胎生成推荐理由。
+ *
+ * 请求体：{ tires: TireWithScore[], wetPref, speedPref, setupPref, sortMode }
+ * 响应体：{ explanations: { [tireId]: string } }，生成失败的轮胎不出现在结果中，由客户端本地规则兜底。
+ * 请求头 Accept: text/event-stream 时改为 SSE：每生成一条发送 explanation 事件，结束时发送 done 事件。
+ * 兼容旧客户端的单条请求 { tire, ... }，此时响应 { explanation }。
+ */
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { cacheKey, readCache, writeCache } from "./cache.ts";
+import { createProvider } from "./providers.ts";
+import { checkRateLimit, clientIp } from "./rate-limit.ts";
+import type { Explanation, ExplainPreferences, ExplainTire } from "./types.ts";
+
+/** 单次请求最多的轮胎数 */
+const MAX_TIRES = 5;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+
+const isTire = (value: unknown): value is ExplainTire => {
+  const tire = value as ExplainTire;
+  return (
+    typeof tire?.id === "string" &&
+    typeof tire.score === "number" &&
+    typeof tire.wg === "number" &&
+    typeof tire.rr === "number"
+  );
+};
+
+const pickTire = (tire: ExplainTire): ExplainTire => ({
+  id: tire.id,
+  brand: tire.brand ?? null,
+  model: tire.model ?? null,
+  width_spec_mm: tire.width_spec_mm ?? null,
+  tire_type: tire.tire_type ?? null,
+  wet_center: tire.wet_center ?? null,
+  wet_edge: tire.wet_edge ?? null,
+  price: tire.price ?? null,
+  score: tire.score,
+  wg: tire.wg,
+  rr: tire.rr,
+  rrSpeedKmh: tire.rrSpeedKmh ?? 30,
+  pressureBar: tire.pressureBar ?? null,
+  mountedWidthMm: tire.mountedWidthMm ?? null,
+  widthWarning: tire.widthWarning === true,
+  clearanceFit: tire.clearanceFit ?? "unknown",
+  widthClass: tire.widthClass ?? null,
+  wgPercentile: tire.wgPercentile ?? 0,
+  rrPercentile: tire.rrPercentile ?? 0,
+});
+
+const provider = createProvider();
+
+// 使用 service role 读写缓存表，缓存表对匿名用户不开放
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+);
+
+/**
+ * 先产出缓存命中的理由，再把未命中的轮胎合并为一次模型调用，边生成边产出并写入缓存。
+ * 仍把全部推荐传给模型，便于相互对比。
+ */
+async function* explain(
+  tires: ExplainTire[],
+  preferences: ExplainPreferences
+): AsyncGenerator<Explanation> {
+  const keys = new Map(
+    await Promise.all(
+      tires.map(async (tire) => [tire.id, await cacheKey(tire, tires, preferences, provider.name)] as const)
+    )
+  );
+  const cached = await readCache(supabase, Array.from(keys.values()));
+
+  const pending = new Set<string>();
+  for (const tire of tires) {
+    const hit = cached.get(keys.get(tire.id)!);
+    if (hit) yield { id: tire.id, explanation: hit };
+    else pending.add(tire.id);
+  }
+  if (pending.size === 0) return;
+
+  for await (const result of provider.stream({ tires, preferences })) {
+    if (!pending.delete(result.id)) continue;
+    yield result;
+    await writeCache(supabase, [
+      { cache_key: keys.get(result.id)!, tire_id: result.id, explanation: result.explanation, model: provider.name },
+    ]);
+  }
+}
+
+const encoder = new TextEncoder();
+
+const sseEvent = (event: string, data: unknown) =>
+  encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+function streamResponse(results: AsyncGenerator<Explanation>): Response {
+  // 客户端断开后停止读取模型输出，跳出循环时生成器会被关闭
+  let cancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const result of results) {
+          if (cancelled) break;
+          controller.enqueue(sseEvent("explanation", result));
+        }
+        if (!cancelled) controller.enqueue(sseEvent("done", {}));
+      } catch (err) {
+        console.error("Error streaming explanations:", err);
+        if (!cancelled) controller.enqueue(sseEvent("error", { error: "Explanation provider unavailable" }));
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method Not Allowed" }, 405);
+
+  const retryAfter = checkRateLimit(clientIp(req));
+  if (retryAfter != null) {
+    return json({ error: "Too Many Requests" }, 429, { "Retry-After": String(retryAfter) });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON" }, 400);
+  }
+
+  const single = body.tire !== undefined;
+  const rawTires = single ? [body.tire] : body.tires;
+  if (!Array.isArray(rawTires) || rawTires.length === 0 || rawTires.length > MAX_TIRES || !rawTires.every(isTire)) {
+    return json({ error: "Invalid payload" }, 400);
+  }
+
+  const tires = rawTires.map(pickTire);
+  const preferences: ExplainPreferences = {
+    wetPref: String(body.wetPref ?? "normal"),
+    speedPref: String(body.speedPref ?? "training"),
+    setupPref: String(body.setupPref ?? "any"),
+    sortMode: String(body.sortMode ?? "score"),
+  };
+
+  const results = explain(tires, preferences);
+
+  if (req.headers.get("accept")?.includes("text/event-stream")) {
+    return streamResponse(results);
+  }
+
+  const explanations: Record<string, string> = {};
+  try {
+    for await (const { id, explanation } of results) explanations[id] = explanation;
+  } catch (err) {
+    console.error("Error generating explanations:", err);
+    if (Object.keys(explanations).length === 0) {
+      return json({ error: "Explanation provider unavailable" }, 502);
+    }
+  }
+
+  if (single) {
+    const explanation = explanations[tires[0].id];
+    return explanation ? json({ explanation }) : json({ error: "No explanation" }, 502);
+  }
+  return json({ explanations });
+});
@@ -0,0 +1,130 @@
+import type { Explanation, ExplainRequest, ExplainTire, ExplanationProvider } from "./types.ts";
+
+const WET_FOCUS: Record<string, string> = {
+  very: "非常在意湿地安全",
+  normal: "湿地与速度兼顾",
+  not: "更看重速度与滚阻",
+};
+
+const peerGroup = (tire: ExplainTire) =>
+  tire.widthClass != null ? `同为 ${tire.widthClass}mm 的已测轮胎` : "全部已测轮胎";
+
+const describeTire = (tire: ExplainTire, rank: number) =>
+  [
+    `#${rank} id=${tire.id}`,
+    `${tire.brand ?? ""} ${tire.model ?? ""} ${tire.width_spec_mm ?? "?"}mm ${tire.tire_type ?? ""}`.trim(),
+    `综合得分 ${tire.score.toFixed(1)}`,
+    `湿地抓地 ${tire.wg}（中心 ${tire.wet_center ?? "?"} / 边缘 ${tire.wet_edge ?? "?"}，优于 ${Math.round(tire.wgPercentile)}% 的${peerGroup(tire)}）`,
+    `${tire.rrSpeedKmh}km/h 滚阻 ${tire.rr.toFixed(1)}W（低于 ${Math.round(tire.rrPercentile)}% 的${peerGroup(tire)}）`,
+    ...(tire.pressureBar != null ? [`按骑手条件估算胎压 ${tire.pressureBar.toFixed(1)} bar`] : []),
+    ...(tire.clearanceFit === "tight" && tire.mountedWidthMm != null
+      ? [`装上后约 ${tire.mountedWidthMm.toFixed(1)}mm，与车架最大胎宽间隙较紧`]
+      : tire.clearanceFit === "unknown" && tire.widthWarning && tire.mountedWidthMm != null
+        ? [`装上后约 ${tire.mountedWidthMm.toFixed(1)}mm，宽于标称，需提醒确认车架间隙`]
+        : []),
+    tire.price != null ? `价格 ¥${tire.price}` : "价格未知",
+  ].join("，");
+
+export function buildPrompt({ tires, preferences }: ExplainRequest): string {
+  return [
+    "你是公路车轮胎选购顾问。根据骑手偏好与测试数据，为每条推荐写一句中文推荐理由（40 字以内）。",
+    "要求：引用具体数值，并与其他推荐对比；不要编造数据中没有的信息。",
+    `骑手偏好：${WET_FOCUS[preferences.wetPref] ?? preferences.wetPref}，骑行强度 ${preferences.speedPref}，安装方式 ${preferences.setupPref}，排序方式 ${preferences.sortMode}。`,
+    "推荐列表：",
+    ...tires.map((tire, i) => describeTire(tire, i + 1)),
+    '按名次顺序逐行输出 JSON Lines，每行一个对象，不要输出其他内容：{"id": "<id>", "explanation": "<理由>"}',
+  ].join("\n");
+}
+
+/** 解析一行 JSON Lines；格式不对的行直接丢弃 */
+const parseLine = (line: string): Explanation | null => {
+  try {
+    const value = JSON.parse(line.trim());
+    if (typeof value?.id === "string" && typeof value.explanation === "string" && value.explanation.trim()) {
+      return { id: value.id, explanation: value.explanation.trim() };
+    }
+  } catch {
+    // 模型偶尔输出多余文字
+  }
+  return null;
+};
+
+/** OpenAI 兼容的 Chat Completions 流式接口；EXPLAIN_API_BASE 可指向本地模型服务 */
+function openAiProvider(): ExplanationProvider {
+  const apiBase = Deno.env.get("EXPLAIN_API_BASE") ?? "https://api.openai.com/v1";
+  const apiKey = Deno.env.get("EXPLAIN_API_KEY") ?? "";
+  const model = Deno.env.get("EXPLAIN_MODEL") ?? "gpt-4o-mini";
+  // 整次生成（含读流）的上限，模型服务无响应时不让请求一直挂着
+  const timeoutMs = Number(Deno.env.get("EXPLAIN_API_TIMEOUT_MS") ?? 30000);
+
+  return {
+    name: model,
+    async *stream(request) {
+      const response = await fetch(`${apiBase}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0.3,
+          stream: true,
+          messages: [{ role: "user", content: buildPrompt(request) }],
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Provider failed: ${response.status} ${await response.text()}`);
+      }
+
+      // 上游是 SSE，每个 data 块带一段增量文本；文本按行切分，每凑满一行产出一条理由
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let sse = "";
+      let text = "";
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        sse += value;
+        const events = sse.split("\n");
+        sse = events.pop() ?? "";
+        for (const event of events) {
+          if (!event.startsWith("data:")) continue;
+          const data = event.slice(5).trim();
+          if (data === "[DONE]") continue;
+          text += JSON.parse(data).choices?.[0]?.delta?.content ?? "";
+          const lines = text.split("\n");
+          text = lines.pop() ?? "";
+          for (const line of lines) {
+            const explanation = parseLine(line);
+            if (explanation) yield explanation;
+          }
+        }
+      }
+      const last = parseLine(text);
+      if (last) yield last;
+    },
+  };
+}
+
+/** 不调用模型的确定性实现，用于本地开发与测试；每条之间稍作停顿以模拟流式输出 */
+function stubProvider(): ExplanationProvider {
+  const delayMs = Number(Deno.env.get("EXPLAIN_STUB_DELAY_MS") ?? 300);
+  return {
+    name: "stub",
+    async *stream({ tires }) {
+      for (const tire of tires) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        yield {
+          id: tire.id,
+          explanation: `湿地抓地 ${tire.wg}，${tire.rrSpeedKmh}km/h 滚阻 ${tire.rr.toFixed(1)}W，综合得分 ${tire.score.toFixed(1)}`,
+        };
+      }
+    },
+  };
+}
+
+/** EXPLAIN_PROVIDER=stub 使用桩实现，默认使用 OpenAI 兼容接口 */
+export function createProvider(): ExplanationProvider {
+  return Deno.env.get("EXPLAIN_PROVIDER") === "stub" ? stubProvider() : openAiProvider();
+}
@@ -0,0 +1,30 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { buildPrompt, createProvider } from "./providers.ts";
+import type { ExplainRequest } from "./types.ts";
+import { makeTire } from "./__fixtures__/tires.ts";
+
+const request: ExplainRequest = {
+  tires: [makeTire("a"), makeTire("b", { wg: 35, rr: 13.25, score: 76.04 })],
+  preferences: { wetPref: "normal", speedPref: "medium", setupPref: "any", sortMode: "score" },
+};
+
+Deno.test("the stub provider yields one explanation per tire in order", async () => {
+  Deno.env.set("EXPLAIN_PROVIDER", "stub");
+  Deno.env.set("EXPLAIN_STUB_DELAY_MS", "0");
+  const provider = createProvider();
+  assertEquals(provider.name, "stub");
+
+  const explanations = [];
+  for await (const explanation of provider.stream(request)) explanations.push(explanation);
+  assertEquals(explanations, [
+    { id: "a", explanation: "湿地抓地 38，29km/h 滚阻 14.5W，综合得分 80.0" },
+    { id: "b", explanation: "湿地抓地 35，29km/h 滚阻 13.3W，综合得分 76.0" },
+  ]);
+});
+
+Deno.test("buildPrompt lists the tires by rank", () => {
+  const prompt = buildPrompt(request);
+  assertStringIncludes(prompt, "#1 id=a");
+  assertStringIncludes(prompt, "#2 id=b");
+  assertStringIncludes(prompt, "价格 ¥300");
+});
@@ -0,0 +1,41 @@
+/**
+ * 按 IP 的固定窗口限流。计数保存在当前函数实例的内存中，
+ * 实例回收或扩容后会重新计数，只用于挡住单个客户端的突发请求。
+ */
+const WINDOW_MS = 60_000;
+const MAX_REQUESTS_PER_WINDOW = Number(Deno.env.get("EXPLAIN_RATE_LIMIT") ?? 20);
+
+const windows = new Map<string, { start: number; count: number }>();
+
+/**
+ * 我们自己的代理在 X-Forwarded-For 末尾追加的层数。
+ * 左侧的条目由客户端随意填写，只信任从右数第 TRUSTED_PROXY_HOPS 个，即最外层代理看到的来源地址。
+ */
+const TRUSTED_PROXY_HOPS = Number(Deno.env.get("EXPLAIN_TRUSTED_PROXY_HOPS") ?? 1);
+
+export function clientIp(req: Request): string {
+  const hops = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - TRUSTED_PROXY_HOPS] ?? "unknown";
+}
+
+/** 允许时返回 null，超限时返回需要等待的秒数 */
+export function checkRateLimit(ip: string, now = Date.now()): number | null {
+  // 清掉已过期的窗口，避免实例存活期间每个来访 IP 都一直留在内存里
+  for (const [key, entry] of windows) {
+    if (now - entry.start >= WINDOW_MS) windows.delete(key);
+  }
+
+  const current = windows.get(ip);
+  if (!current) {
+    windows.set(ip, { start: now, count: 1 });
+    return null;
+  }
+  if (current.count >= MAX_REQUESTS_PER_WINDOW) {
+    return Math.ceil((current.start + WINDOW_MS - now) / 1000);
+  }
+  current.count += 1;
+  return null;
+}
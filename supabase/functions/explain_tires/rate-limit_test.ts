@@ -0,0 +1,31 @@
+import { assertEquals } from "jsr:@std/assert";
+import { checkRateLimit, clientIp } from "./rate-limit.ts";
+
+const request = (headers: Record<string, string>) =>
+  new Request("http://localhost/explain_tires", { headers });
+
+Deno.test("clientIp uses the hop appended by the proxy, not the client", () => {
+  assertEquals(clientIp(request({ "x-forwarded-for": "203.0.113.9" })), "203.0.113.9");
+  assertEquals(clientIp(request({ "x-forwarded-for": "1.2.3.4, 203.0.113.9" })), "203.0.113.9");
+  assertEquals(clientIp(request({ "x-forwarded-for": " 1.2.3.4 ,203.0.113.9 , " })), "203.0.113.9");
+});
+
+Deno.test("clientIp ignores x-real-ip and falls back to unknown", () => {
+  assertEquals(clientIp(request({ "x-real-ip": "1.2.3.4" })), "unknown");
+  assertEquals(clientIp(request({})), "unknown");
+});
+
+Deno.test("checkRateLimit allows 20 requests per IP and minute", () => {
+  const start = 1_000_000;
+  for (let i = 0; i < 20; i++) assertEquals(checkRateLimit("198.51.100.1", start + i), null);
+  assertEquals(checkRateLimit("198.51.100.1", start + 20_000), 40);
+  // 其他 IP 各自计数
+  assertEquals(checkRateLimit("198.51.100.2", start + 20_000), null);
+});
+
+Deno.test("checkRateLimit starts a new window after a minute", () => {
+  const start = 2_000_000;
+  for (let i = 0; i < 20; i++) checkRateLimit("198.51.100.3", start);
+  assertEquals(checkRateLimit("198.51.100.3", start + 59_999), 1);
+  assertEquals(checkRateLimit("198.51.100.3", start + 60_000), null);
+});
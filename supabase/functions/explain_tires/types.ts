@@ -0,0 +1,48 @@
+/** 参与生成理由的轮胎字段（客户端发送完整的 TireWithScore，这里只取用到的部分） */
+export interface ExplainTire {
+  id: string;
+  brand: string | null;
+  model: string | null;
+  width_spec_mm: number | null;
+  tire_type: string | null;
+  wet_center: number | null;
+  wet_edge: number | null;
+  price: number | null;
+  score: number;
+  wg: number;
+  rr: number;
+  rrSpeedKmh: number;
+  /** 按骑手条件估算的胎压（bar）与装胎宽度（mm） */
+  pressureBar: number | null;
+  mountedWidthMm: number | null;
+  widthWarning: boolean;
+  /** 与车架间隙的比较：ok / tight / unknown（超出间隙的轮胎不会被推荐） */
+  clearanceFit: string;
+  /** 百分位比较所用的胎宽规格，null 表示与全部已测轮胎比较 */
+  widthClass: number | null;
+  wgPercentile: number;
+  rrPercentile: number;
+}
+
+export interface ExplainPreferences {
+  wetPref: string;
+  speedPref: string;
+  setupPref: string;
+  sortMode: string;
+}
+
+export interface ExplainRequest {
+  tires: ExplainTire[];
+  preferences: ExplainPreferences;
+}
+
+export interface Explanation {
+  id: string;
+  explanation: string;
+}
+
+/** 生成推荐理由的模型：每生成完一条就产出一条，未产出的 id 视为生成失败 */
+export interface ExplanationProvider {
+  name: string;
+  stream(request: ExplainRequest): AsyncIterable<Explanation>;
+}